@@ -0,0 +1,292 @@
+/**
+ * @fileoverview AsyncResultクラスのテスト
+ *
+ * このファイルでは、awaitできるAsyncResultクラスのコンビネータと、
+ * fromPromise/retry/withTimeout/raceOk などの非同期操作がAsyncResultを返すことをテストします。
+ * 同期のResultと同じ語彙で非同期処理を記述する使用例も含まれています。
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  ok,
+  err,
+  isOk,
+  isErr,
+  AsyncResult,
+  UnwrapError,
+  fromPromise,
+  retry,
+  withTimeout,
+  raceOk,
+  allAsync,
+  traverseAsync,
+  mapConcurrent,
+  mapPromiseResult,
+  type Result
+} from '../index.js';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+// ユーザー取得APIをシミュレート
+const fetchUser = async (id: number): Promise<User> => {
+  if (id <= 0) throw new Error('User not found');
+  return { id, name: `User ${id}` };
+};
+
+const findUser = (id: number) => fromPromise(fetchUser(id), error => (error as Error).message);
+
+describe('AsyncResultクラス', () => {
+  describe('生成とawait', () => {
+    it('Promise<Result>から生成してawaitできる', async () => {
+      const result = await new AsyncResult(Promise.resolve(ok(1)));
+
+      expect(result).toEqual(ok(1));
+    });
+
+    it('関数から生成するとawaitされるまで実行しない', async () => {
+      let calls = 0;
+      const lazy = new AsyncResult(async () => {
+        calls++;
+        return ok('loaded');
+      });
+      const mapped = lazy.map(value => value.toUpperCase());
+
+      expect(calls).toBe(0);
+      expect(await mapped).toEqual(ok('LOADED'));
+      expect(await lazy).toEqual(ok('loaded'));
+      expect(calls).toBe(1);
+    });
+
+    it('fromPromiseはAsyncResultを返す', async () => {
+      const user = findUser(1);
+
+      expect(user).toBeInstanceOf(AsyncResult);
+      expectTypeOf(user).toEqualTypeOf<AsyncResult<User, string>>();
+      expect(await user).toEqual(ok({ id: 1, name: 'User 1' }));
+      expect(await findUser(0)).toEqual(err('User not found'));
+    });
+
+    it('Promiseから生成した場合はawaitしなくてもステップを一度だけ実行する', async () => {
+      const logs: string[] = [];
+      const user = findUser(1).tap(found => {
+        logs.push(found.name);
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(logs).toEqual(['User 1']);
+      await user;
+      expect(logs).toEqual(['User 1']);
+    });
+  });
+
+  describe('Promiseとしての振る舞い', () => {
+    it('Promise型の値として扱える', async () => {
+      const promise: Promise<Result<User, string>> = findUser(1);
+
+      expect(Object.prototype.toString.call(promise)).toBe('[object AsyncResult]');
+      expect(await promise).toEqual(ok({ id: 1, name: 'User 1' }));
+    });
+
+    it('catchで元のPromiseの拒否を処理できる', async () => {
+      const recovered = await new AsyncResult<User, string>(Promise.reject(new Error('broken'))).catch(
+        error => (error as Error).message
+      );
+
+      expect(recovered).toBe('broken');
+    });
+
+    it('finallyは成功・失敗を問わず実行され、結果をそのまま返す', async () => {
+      const calls: string[] = [];
+      const result = await findUser(0).finally(() => calls.push('done'));
+
+      expect(calls).toEqual(['done']);
+      expect(result).toEqual(err('User not found'));
+    });
+  });
+
+  describe('成功側のコンビネータ', () => {
+    it('mapは同期・非同期の変換関数を受け取る', async () => {
+      const result = await findUser(1)
+        .map(user => user.name, String)
+        .map(async name => name.length, String);
+
+      expect(result).toEqual(ok(6));
+      expectTypeOf(result).toEqualTypeOf<Result<number, string>>();
+    });
+
+    it('andThenはResultまたはPromise<Result>を返す処理をつなぎ、エラー型を合成する', async () => {
+      const result = await findUser(1)
+        .andThen(user => (user.name ? ok(user.id) : err({ code: 'NO_NAME' as const })))
+        .andThen(async id => (id > 1 ? ok(id) : err(404 as const)));
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBe(404);
+      }
+      expectTypeOf(result).toEqualTypeOf<Result<number, string | { code: 'NO_NAME' } | 404>>();
+    });
+
+    it('失敗時は後続の処理を実行しない', async () => {
+      const calls: string[] = [];
+      const result = await findUser(0)
+        .map(user => {
+          calls.push('map');
+          return user;
+        })
+        .andThen(user => {
+          calls.push('andThen');
+          return ok(user);
+        })
+        .tap(() => {
+          calls.push('tap');
+        });
+
+      expect(isErr(result)).toBe(true);
+      expect(calls).toEqual([]);
+    });
+
+    it('tapは非同期の副作用を待ってから値をそのまま渡す', async () => {
+      const logs: string[] = [];
+      const result = await findUser(2).tap(async user => {
+        await Promise.resolve();
+        logs.push(user.name);
+      });
+
+      expect(logs).toEqual(['User 2']);
+      expect(result).toEqual(ok({ id: 2, name: 'User 2' }));
+    });
+  });
+
+  describe('失敗側のコンビネータ', () => {
+    it('mapErrはエラーを変換する', async () => {
+      const result = await findUser(0).mapErr(message => new Error(message));
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBeInstanceOf(Error);
+        expect(result.error).toHaveProperty('message', 'User not found');
+      }
+    });
+
+    it('orElseはフォールバックの処理で復旧する', async () => {
+      const guest: User = { id: 0, name: 'Guest' };
+      const result = await findUser(0).orElse(async () => ok(guest));
+
+      expect(result).toEqual(ok(guest));
+      expectTypeOf(result).toEqualTypeOf<Result<User, never>>();
+    });
+
+    it('recoverはエラーから値を計算して成功にする', async () => {
+      const result = await findUser(0).recover(message => message.length);
+
+      expect(result).toEqual(ok(14));
+    });
+
+    it('tapErrはエラーに対する副作用を実行する', async () => {
+      const errors: string[] = [];
+      const result = await findUser(0).tapErr(message => {
+        errors.push(message);
+      });
+
+      expect(errors).toEqual(['User not found']);
+      expect(isErr(result)).toBe(true);
+    });
+  });
+
+  describe('コールバックの例外', () => {
+    it('map/mapErr/recover/tap/tapErrのコールバックの例外や拒否は失敗になる', async () => {
+      const broken = (): never => {
+        throw new Error('broken');
+      };
+      const results = await Promise.all([
+        findUser(1).map(broken),
+        findUser(1).map(async () => broken()),
+        findUser(0).mapErr(broken),
+        findUser(0).recover(broken),
+        findUser(1).tap(broken),
+        findUser(0).tapErr(async () => broken())
+      ]);
+
+      for (const result of results) {
+        expect(result).toEqual(err(new Error('broken')));
+      }
+    });
+
+    it('mapErrorを渡すと例外をエラー型に変換する', async () => {
+      const result = await findUser(1).map(
+        () => {
+          throw new Error('broken');
+        },
+        error => ({ code: 'MAP_FAILED' as const, cause: error })
+      );
+
+      expectTypeOf(result).toEqualTypeOf<Result<never, string | { code: 'MAP_FAILED'; cause: unknown }>>();
+      expect(isErr(result)).toBe(true);
+      if (isErr(result) && typeof result.error !== 'string') {
+        expect(result.error.code).toBe('MAP_FAILED');
+        expect(result.error.cause).toEqual(new Error('broken'));
+      }
+    });
+  });
+
+  describe('終端の操作', () => {
+    it('matchは成功・失敗それぞれのハンドラの結果を返す', async () => {
+      const handlers = {
+        ok: (user: User) => `Hello, ${user.name}`,
+        err: async (message: string) => `Error: ${message}`
+      };
+
+      expect(await findUser(1).match(handlers)).toBe('Hello, User 1');
+      expect(await findUser(0).match(handlers)).toBe('Error: User not found');
+    });
+
+    it('unwrapOr/unwrapOrElseは失敗時に代わりの値を返す', async () => {
+      expect(await findUser(0).map(user => user.name).unwrapOr('anonymous')).toBe('anonymous');
+      expect(await findUser(0).unwrapOrElse(async message => message)).toBe('User not found');
+    });
+
+    it('unwrapは失敗時にUnwrapErrorで拒否される', async () => {
+      expect(await findUser(1).map(user => user.id).unwrap()).toBe(1);
+      await expect(findUser(0).unwrap()).rejects.toBeInstanceOf(UnwrapError);
+    });
+  });
+
+  describe('非同期操作の戻り値', () => {
+    it('retry/withTimeout/raceOkの結果をそのままつなげられる', async () => {
+      const retried = await retry(async () => ok(2), { attempts: 3 }).map(n => n * 2);
+      const timed = await withTimeout(Promise.resolve(ok('fast')), 100).map(value => value.length);
+      const raced = await raceOk([async () => ok('cache')]).unwrapOr('none');
+
+      expect(retried).toEqual(ok(4));
+      expect(timed).toEqual(ok(4));
+      expect(raced).toBe('cache');
+    });
+
+    it('allAsync/traverseAsync/mapConcurrent/mapPromiseResultの結果をそのままつなげられる', async () => {
+      const all = allAsync([findUser(1), findUser(2)]);
+      const traversed = traverseAsync([1, 2], id => findUser(id));
+      const mapped = mapConcurrent([1, 2], fetchUser);
+      const names = mapPromiseResult(findUser(1), user => user.name);
+
+      expect(all).toBeInstanceOf(AsyncResult);
+      expect(traversed).toBeInstanceOf(AsyncResult);
+      expect(mapped).toBeInstanceOf(AsyncResult);
+      expect(names).toBeInstanceOf(AsyncResult);
+      expectTypeOf(traversed).toEqualTypeOf<AsyncResult<User[], string>>();
+      expectTypeOf(names).toEqualTypeOf<AsyncResult<string, unknown>>();
+      expect(await all.map(users => users.length)).toEqual(ok(2));
+      expect(await traversed.map(users => users.map(user => user.id))).toEqual(ok([1, 2]));
+      expect(await mapped.unwrapOr([])).toHaveLength(2);
+      expect(await names.unwrapOr('anonymous')).toBe('User 1');
+    });
+
+    it('Promise.allで複数のAsyncResultを待てる', async () => {
+      const results = await Promise.all([findUser(1), findUser(0)]);
+
+      expect(results.map(isOk)).toEqual([true, false]);
+    });
+  });
+});
@@ -0,0 +1,435 @@
+/**
+ * @fileoverview コレクション用コンビネータのテスト
+ * 
+ * このファイルでは、all/combine/allAsync 関数と、エラーを蓄積する
+ * allWithErrors/combineWithErrors/validate 関数、同時実行数を制限して
+ * 要素を処理する traverse/traverseAsync/mapConcurrent 関数、成功と失敗を
+ * 振り分ける partition/partitionWithIndex 関数の動作をテストします。
+ * 複数のResult型をまとめて1つのResult型に変換する使用例も含まれています。
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  ok,
+  err,
+  isOk,
+  isErr,
+  all,
+  allAsync,
+  combine,
+  allWithErrors,
+  combineWithErrors,
+  validate,
+  traverse,
+  traverseAsync,
+  mapConcurrent,
+  partition,
+  partitionWithIndex,
+  type Result,
+  type NonEmptyArray,
+  type TraverseOptions
+} from '../index.js';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('コレクション用コンビネータ', () => {
+  describe('all関数 - 配列・タプルのResultをまとめる', () => {
+    it('すべて成功した場合は値の配列を返す', () => {
+      const results: Result<number, string>[] = [ok(1), ok(2), ok(3)];
+      const combined = all(results);
+      
+      expect(isOk(combined)).toBe(true);
+      if (isOk(combined)) {
+        expect(combined.data).toEqual([1, 2, 3]);
+      }
+    });
+
+    it('最初の失敗を返す', () => {
+      const combined = all([ok(1), err('first'), err('second')]);
+      
+      expect(isErr(combined)).toBe(true);
+      if (isErr(combined)) {
+        expect(combined.error).toBe('first');
+      }
+    });
+
+    it('空配列は空配列の成功になる', () => {
+      const combined = all([]);
+      
+      expect(isOk(combined)).toBe(true);
+      if (isOk(combined)) {
+        expect(combined.data).toEqual([]);
+      }
+    });
+
+    it('タプルでは位置ごとの型が保持される', () => {
+      const parseId = (s: string): Result<number, 'INVALID_ID'> =>
+        /^\d+$/.test(s) ? ok(Number(s)) : err('INVALID_ID');
+      const parseName = (s: string): Result<string, 'EMPTY_NAME'> =>
+        s.length > 0 ? ok(s) : err('EMPTY_NAME');
+
+      const combined = all([parseId('7'), parseName('Alice')]);
+
+      expectTypeOf(combined).toMatchTypeOf<Result<[number, string], 'INVALID_ID' | 'EMPTY_NAME'>>();
+      expect(isOk(combined)).toBe(true);
+      if (isOk(combined)) {
+        const [id, name] = combined.data;
+        expect(id).toBe(7);
+        expect(name).toBe('Alice');
+      }
+    });
+  });
+
+  describe('combine関数 - オブジェクトのResultをまとめる', () => {
+    it('すべて成功した場合は値のオブジェクトを返す', () => {
+      const combined = combine({
+        host: ok('localhost'),
+        port: ok(8080)
+      });
+      
+      expectTypeOf(combined).toMatchTypeOf<Result<{ host: string; port: number }, never>>();
+      expect(isOk(combined)).toBe(true);
+      if (isOk(combined)) {
+        expect(combined.data).toEqual({ host: 'localhost', port: 8080 });
+      }
+    });
+
+    it('失敗が含まれる場合は最初の失敗を返す', () => {
+      const combined = combine({
+        host: ok('localhost'),
+        port: err('port is required'),
+        user: err('user is required')
+      });
+      
+      expect(isErr(combined)).toBe(true);
+      if (isErr(combined)) {
+        expect(combined.error).toBe('port is required');
+      }
+    });
+  });
+
+  describe('allWithErrors/combineWithErrors関数 - すべてのエラーを収集する', () => {
+    it('すべて成功した場合は値をまとめる', () => {
+      const combined = allWithErrors([ok(1), ok('two')]);
+      
+      expect(isOk(combined)).toBe(true);
+      if (isOk(combined)) {
+        expect(combined.data).toEqual([1, 'two']);
+      }
+    });
+
+    it('失敗した場合はすべてのエラーを順番に返す', () => {
+      const combined = allWithErrors([err('first'), ok(1), err('second')]);
+      
+      expect(isErr(combined)).toBe(true);
+      if (isErr(combined)) {
+        expect(combined.error).toEqual(['first', 'second']);
+      }
+    });
+
+    it('オブジェクト形式でもすべてのエラーを返す', () => {
+      const combined = combineWithErrors({
+        host: err('host is required'),
+        port: ok(8080),
+        user: err('user is required')
+      });
+      
+      expect(isErr(combined)).toBe(true);
+      if (isErr(combined)) {
+        expect(combined.error).toEqual(['host is required', 'user is required']);
+      }
+    });
+  });
+
+  describe('validate関数 - 独立した検証の実行', () => {
+    type FieldError = { field: string; message: string };
+
+    const required = (field: string) => (value: string): Result<string, FieldError> =>
+      value.trim().length > 0 ? ok(value.trim()) : err({ field, message: `${field}は必須です` });
+
+    const positive = (field: string) => (value: number): Result<number, FieldError> =>
+      value > 0 ? ok(value) : err({ field, message: `${field}は正の数である必要があります` });
+
+    interface ProductForm {
+      name: string;
+      price: number;
+      stock: number;
+    }
+
+    const validateProduct = (form: ProductForm) =>
+      validate(form, {
+        name: f => required('name')(f.name),
+        price: f => positive('price')(f.price),
+        stock: f => positive('stock')(f.stock)
+      });
+
+    it('すべての検証が成功した場合は検証済みの値を返す', () => {
+      const result = validateProduct({ name: ' Pen ', price: 100, stock: 5 });
+      
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toEqual({ name: 'Pen', price: 100, stock: 5 });
+      }
+    });
+
+    it('失敗した検証のエラーをすべて返す', () => {
+      const result = validateProduct({ name: '', price: 100, stock: 0 });
+      
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual([
+          { field: 'name', message: 'nameは必須です' },
+          { field: 'stock', message: 'stockは正の数である必要があります' }
+        ]);
+      }
+    });
+
+    it('結果の型は検証済みの値と空でないエラー配列になる', () => {
+      const result = validateProduct({ name: 'Pen', price: 1, stock: 1 });
+
+      expectTypeOf(result).toMatchTypeOf<
+        Result<{ name: string; price: number; stock: number }, NonEmptyArray<FieldError>>
+      >();
+    });
+  });
+
+  describe('allAsync関数 - 非同期のResultをまとめる', () => {
+    it('Promise<Result>の配列をまとめられる', async () => {
+      const combined = await allAsync([
+        delay(20).then(() => ok(1)),
+        delay(10).then(() => ok('two'))
+      ]);
+      
+      expect(isOk(combined)).toBe(true);
+      if (isOk(combined)) {
+        expect(combined.data).toEqual([1, 'two']);
+      }
+    });
+
+    it('最初に到着した失敗で即座に解決する', async () => {
+      const start = Date.now();
+      const combined = await allAsync([
+        delay(200).then(() => ok(1)),
+        delay(10).then(() => err('fast failure'))
+      ]);
+      
+      expect(Date.now() - start).toBeLessThan(150);
+      expect(isErr(combined)).toBe(true);
+      if (isErr(combined)) {
+        expect(combined.error).toBe('fast failure');
+      }
+    });
+
+    it('関数を渡すと同時実行数を制限できる', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const task = (value: number) => async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(10);
+        running--;
+        return ok(value);
+      };
+
+      const combined = await allAsync(
+        Array.from({ length: 6 }, (_, i) => task(i)),
+        { concurrency: 2 }
+      );
+      
+      expect(maxRunning).toBe(2);
+      expect(isOk(combined)).toBe(true);
+      if (isOk(combined)) {
+        expect(combined.data).toEqual([0, 1, 2, 3, 4, 5]);
+      }
+    });
+
+    it('失敗後は新しい処理を開始しない', async () => {
+      const started: number[] = [];
+      const task = (value: number) => async (): Promise<Result<number, string>> => {
+        started.push(value);
+        await delay(10);
+        return value === 1 ? err(`failed at ${value}`) : ok(value);
+      };
+
+      const combined = await allAsync([task(0), task(1), task(2), task(3)], { concurrency: 1 });
+      
+      expect(isErr(combined)).toBe(true);
+      expect(started).toEqual([0, 1]);
+    });
+
+    it('Promiseが拒否された場合は拒否される', async () => {
+      await expect(allAsync([Promise.reject(new Error('rejected'))])).rejects.toThrow('rejected');
+    });
+
+    it('同時実行数が1以上の整数でもInfinityでもない場合はRangeErrorで拒否される', async () => {
+      const task = async () => ok(1);
+
+      await expect(allAsync([task], { concurrency: 0 })).rejects.toThrow(RangeError);
+      await expect(allAsync([task], { concurrency: -1 })).rejects.toThrow(RangeError);
+      await expect(allAsync([task], { concurrency: 1.5 })).rejects.toThrow(RangeError);
+      await expect(allAsync([task], { concurrency: NaN })).rejects.toThrow(RangeError);
+    });
+
+    it('短絡した後に拒否されたPromiseは未処理の拒否にならない', async () => {
+      // 未処理の拒否が発生するとvitestの実行全体が失敗する
+      const rejectsLater = new Promise<Result<number, string>>((_, reject) =>
+        setTimeout(() => reject(new Error('late')), 10)
+      );
+
+      const result = await allAsync([Promise.resolve(err('first')), rejectsLater], { concurrency: 1 });
+      await delay(30);
+
+      expect(result).toEqual(err('first'));
+    });
+  });
+
+  describe('traverse/traverseAsync/mapConcurrent関数 - 要素ごとの処理', () => {
+    const parse = (text: string): Result<number, string> =>
+      Number.isNaN(Number(text)) ? err(`invalid: ${text}`) : ok(Number(text));
+
+    it('traverseは各要素の成功値を配列にまとめる', () => {
+      const result = traverse(new Set(['1', '2', '3']), parse);
+      
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toEqual([1, 2, 3]);
+      }
+    });
+
+    it('traverseは最初の失敗で処理を打ち切る', () => {
+      const seen: string[] = [];
+      const result = traverse(['1', 'x', 'y'], text => {
+        seen.push(text);
+        return parse(text);
+      });
+      
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBe('invalid: x');
+      }
+      expect(seen).toEqual(['1', 'x']);
+    });
+
+    it('traverseAsyncは同時実行数を制限しつつ入力順を保つ', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const result = await traverseAsync([30, 10, 20, 5], async (ms, index) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(ms);
+        running--;
+        return ok(`${index}:${ms}`);
+      }, { concurrency: 2 });
+      
+      expect(maxRunning).toBe(2);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toEqual(['0:30', '1:10', '2:20', '3:5']);
+      }
+      expectTypeOf(result).toEqualTypeOf<Result<string[], never>>();
+    });
+
+    it('traverseAsyncは失敗後に新しい処理を開始しない', async () => {
+      const started: number[] = [];
+      const result = await traverseAsync([0, 1, 2, 3], async (value): Promise<Result<number, string>> => {
+        started.push(value);
+        await delay(10);
+        return value === 1 ? err(`failed at ${value}`) : ok(value);
+      }, { concurrency: 1 });
+      
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBe('failed at 1');
+      }
+      expect(started).toEqual([0, 1]);
+    });
+
+    it('collectErrorsを指定するとすべての失敗を入力順に集める', async () => {
+      const result = await traverseAsync(['x', '1', 'y'], async (text, index) => {
+        await delay(index === 0 ? 20 : 0);
+        return parse(text);
+      }, { concurrency: 3, collectErrors: true });
+      
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual(['invalid: x', 'invalid: y']);
+      }
+      expectTypeOf(result).toEqualTypeOf<Result<number[], NonEmptyArray<string>>>();
+    });
+
+    it('TraverseOptions型のオプションを渡すとエラー型は両方の場合のユニオンになる', async () => {
+      const options: TraverseOptions = { collectErrors: false };
+      const result = await traverseAsync(['1', 'x'], async text => parse(text), options);
+      
+      expect(result).toEqual(err('invalid: x'));
+      expectTypeOf(result).toEqualTypeOf<Result<number[], string | NonEmptyArray<string>>>();
+    });
+
+    it('同時実行数にNaNや0を指定するとRangeErrorで拒否される', async () => {
+      const fn = async (n: number) => ok(n);
+
+      await expect(traverseAsync([1, 2], fn, { concurrency: Number(undefined) })).rejects.toThrow(RangeError);
+      await expect(traverseAsync([1, 2], fn, { concurrency: 0 })).rejects.toThrow(RangeError);
+      await expect(mapConcurrent([1, 2], async n => n, { concurrency: -1 })).rejects.toThrow(RangeError);
+    });
+
+    it('同時実行数にInfinityを指定できる', async () => {
+      const result = await traverseAsync([1, 2], async n => ok(n), { concurrency: Infinity });
+
+      expect(result).toEqual(ok([1, 2]));
+    });
+
+    it('空の入力は空配列の成功になる', async () => {
+      const result = await traverseAsync([], async () => ok(1));
+      
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toEqual([]);
+      }
+    });
+
+    it('mapConcurrentは拒否を失敗に変換する', async () => {
+      const success = await mapConcurrent([1, 2, 3], async value => value * 2, { concurrency: 2 });
+      const failure = await mapConcurrent([1, 2], async value => {
+        if (value === 2) throw new Error('boom');
+        return value;
+      });
+      
+      expect(isOk(success)).toBe(true);
+      if (isOk(success)) {
+        expect(success.data).toEqual([2, 4, 6]);
+      }
+      expect(isErr(failure)).toBe(true);
+      if (isErr(failure)) {
+        expect(failure.error).toBeInstanceOf(Error);
+      }
+    });
+  });
+
+  describe('partition/partitionWithIndex関数 - 成功と失敗の振り分け', () => {
+    const rows: Result<number, string>[] = [ok(1), err('bad row'), ok(3), err('missing id')];
+
+    it('partitionは成功値とエラーをそれぞれの順序で振り分ける', () => {
+      const { oks, errs } = partition(rows);
+      
+      expect(oks).toEqual([1, 3]);
+      expect(errs).toEqual(['bad row', 'missing id']);
+      expectTypeOf(oks).toEqualTypeOf<number[]>();
+      expectTypeOf(errs).toEqualTypeOf<string[]>();
+    });
+
+    it('partitionWithIndexは失敗に元の位置を付ける', () => {
+      const { oks, errs } = partitionWithIndex(rows);
+      
+      expect(oks).toEqual([1, 3]);
+      expect(errs).toEqual([
+        { index: 1, error: 'bad row' },
+        { index: 3, error: 'missing id' }
+      ]);
+    });
+
+    it('空の入力は空の配列に振り分けられる', () => {
+      expect(partition([])).toEqual({ oks: [], errs: [] });
+    });
+  });
+});
@@ -5,8 +5,19 @@
  * 関数型プログラミングのモナド的なチェーン処理の使用例も含まれています。
  */
 
-import { describe, it, expect } from 'vitest';
-import { ok, err, isOk, isErr, Do, type Result } from '../index.js';
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  ok,
+  err,
+  isOk,
+  isErr,
+  Do,
+  ResultChain,
+  UnwrapError,
+  AbortedError,
+  type Result,
+  type TraverseOptions
+} from '../index.js';
 
 describe('Do記法とResultChain', () => {
   describe('Do関数 - 初期化', () => {
@@ -42,6 +53,43 @@ describe('Do記法とResultChain', () => {
     });
   });
 
+  describe('await - run()なしでの結果の取得', () => {
+    it('チェーンを直接awaitすると成功結果が得られる', async () => {
+      const result = await Do(10).map(x => x * 2);
+      
+      // mapの変換関数が投げた例外も失敗になるため、エラー型にunknownが加わる
+      expectTypeOf(result).toEqualTypeOf<Result<number, unknown>>();
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe(20);
+      }
+    });
+
+    it('チェーンを直接awaitすると失敗結果が得られる', async () => {
+      const result = await Do(-1).ensure(x => x > 0, 'NEGATIVE');
+      
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBe('NEGATIVE');
+      }
+    });
+
+    it('awaitとrun()は同じ結果になる', async () => {
+      const chain = Do(3).chain(x => (x % 2 === 0 ? ok(x) : err('ODD')));
+      
+      expect(await chain).toEqual(await chain.run());
+    });
+
+    it('Promise.allやchainAsyncでもPromiseと同様に扱える', async () => {
+      const [a, b] = await Promise.all([Do(1), Do(2).map(x => x + 1)]);
+      const nested = await Do(5).chainAsync(x => Do(x).map(y => y * 10));
+      
+      expect(a).toEqual(ok(1));
+      expect(b).toEqual(ok(3));
+      expect(nested).toEqual(ok(50));
+    });
+  });
+
   describe('map関数 - 値の変換', () => {
     it('値を変換できる', async () => {
       const result = await Do(10)
@@ -79,6 +127,31 @@ describe('Do記法とResultChain', () => {
         expect(result.data).toBe('hello_world');
       }
     });
+
+    it('変換関数の例外は失敗になり、エラー型はmapErrorの戻り値の型になる', async () => {
+      const parseJson = (json: string) =>
+        Do<string, 'EMPTY'>(json).map(text => JSON.parse(text) as unknown, error => ({ cause: error }));
+      const withoutMapper = Do<string, 'EMPTY'>('{').map(text => JSON.parse(text) as unknown);
+      
+      expectTypeOf(parseJson).returns.toEqualTypeOf<ResultChain<unknown, 'EMPTY' | { cause: unknown }>>();
+      expectTypeOf(withoutMapper).toEqualTypeOf<ResultChain<unknown, unknown>>();
+      
+      const result = await parseJson('{');
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual({ cause: expect.any(SyntaxError) });
+      }
+      expect(isErr(await withoutMapper)).toBe(true);
+    });
+
+    it('変換関数の戻り値はResultやPromiseでもそのまま成功値になる', async () => {
+      const result = await Do(1).map(n => ok(n));
+      
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toEqual(ok(1));
+      }
+    });
   });
 
   describe('async関数 - 非同期変換', () => {
@@ -151,6 +224,93 @@ describe('Do記法とResultChain', () => {
         expect(result.error).toBe('100未満である必要があります');
       }
     });
+
+    it('型ガードを渡すと成功値の型が絞り込まれる', async () => {
+      const chain = Do<string | null, never>('hello')
+        .ensure((value): value is string => value !== null, 'NULL_VALUE' as const);
+      
+      expectTypeOf(chain).toEqualTypeOf<ResultChain<string, 'NULL_VALUE'>>();
+      expect(await chain.map(value => value.toUpperCase())).toEqual(ok('HELLO'));
+    });
+
+    it('エラーのファクトリ関数で違反した値からエラーを作れる', async () => {
+      const result = await Do<number, never>(150)
+        .ensure(x => x < 100, x => ({ type: 'TOO_LARGE' as const, value: x }));
+      
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expectTypeOf(result.error).toEqualTypeOf<{ type: 'TOO_LARGE'; value: number }>();
+        expect(result.error).toEqual({ type: 'TOO_LARGE', value: 150 });
+      }
+    });
+
+    it('ensureAsyncで非同期の条件を検証できる', async () => {
+      const isAvailable = async (name: string) => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return name !== 'taken';
+      };
+      
+      const available = await Do('alice').ensureAsync(isAvailable, name => `${name}は使用済みです`);
+      const taken = await Do('taken').ensureAsync(isAvailable, name => `${name}は使用済みです`);
+      
+      expect(available).toEqual(ok('alice'));
+      expect(taken).toEqual(err('takenは使用済みです'));
+    });
+  });
+
+  describe('validate関数 - すべてのエラーを収集する検証', () => {
+    const validatePositive = (n: number): Result<number, string> =>
+      n > 0 ? ok(n) : err('正の数である必要があります');
+    const validateEven = (n: number): Result<number, string> =>
+      n % 2 === 0 ? ok(n) : err('偶数である必要があります');
+
+    it('すべての検証が成功した場合は検証済みの値で続行する', async () => {
+      const result = await Do({ width: 4, height: 6 })
+        .validate({
+          width: size => validatePositive(size.width),
+          height: size => validateEven(size.height)
+        })
+        .map(size => size.width * size.height)
+        .run();
+      
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe(24);
+      }
+    });
+
+    it('失敗した検証のエラーをすべて返す', async () => {
+      const result = await Do({ width: -4, height: 3 })
+        .validate({
+          width: size => validatePositive(size.width),
+          height: size => validateEven(size.height)
+        })
+        .run();
+      
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual(['正の数である必要があります', '偶数である必要があります']);
+      }
+    });
+
+    it('前のステップが失敗している場合は検証を実行しない', async () => {
+      let called = false;
+      const result = await Do(0)
+        .ensure(x => x > 0, 'invalid')
+        .validate({
+          value: x => {
+            called = true;
+            return ok(x);
+          }
+        })
+        .run();
+      
+      expect(called).toBe(false);
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBe('invalid');
+      }
+    });
   });
 
   describe('chain関数 - Result型を返す関数のチェーン', () => {
@@ -246,6 +406,431 @@ describe('Do記法とResultChain', () => {
     });
   });
 
+  describe('traverse関数 - 配列の要素ごとの処理', () => {
+    const checkPositive = async (n: number): Promise<Result<number, string>> =>
+      n > 0 ? ok(n * 10) : err(`正の数ではありません: ${n}`);
+
+    it('各要素の成功値を入力順の配列にする', async () => {
+      const result = await Do([1, 2, 3])
+        .traverse(checkPositive, { concurrency: 2 })
+        .map(values => values.reduce((sum, n) => sum + n, 0));
+      
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe(60);
+      }
+    });
+
+    it('最初の失敗でチェーンが失敗する', async () => {
+      const result = await Do([1, -2, -3]).traverse(checkPositive, { concurrency: 1 });
+      
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBe('正の数ではありません: -2');
+      }
+    });
+
+    it('collectErrorsを指定するとすべての失敗を集める', async () => {
+      const result = await Do([1, -2, -3]).traverse(checkPositive, { collectErrors: true });
+      
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual(['正の数ではありません: -2', '正の数ではありません: -3']);
+      }
+      expectTypeOf(result).toEqualTypeOf<Result<number[], string | [string, ...string[]]>>();
+    });
+
+    it('TraverseOptions型のオプションも渡せる', async () => {
+      const options: TraverseOptions = { concurrency: 1 };
+      const result = await Do([1, -2]).traverse(checkPositive, options);
+      
+      expect(result).toEqual(err('正の数ではありません: -2'));
+      expectTypeOf(result).toEqualTypeOf<Result<number[], string | [string, ...string[]]>>();
+    });
+
+    it('シグナルが中断されると残りの要素の処理を開始しない', async () => {
+      const controller = new AbortController();
+      const started: number[] = [];
+      
+      const result = await Do([1, 2, 3], { signal: controller.signal }).traverse(
+        async n => {
+          started.push(n);
+          controller.abort();
+          return ok(n);
+        },
+        { concurrency: 1 }
+      );
+      await new Promise(resolve => setTimeout(resolve, 0));
+      
+      expect(started).toEqual([1]);
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBeInstanceOf(AbortedError);
+      }
+    });
+  });
+
+  describe('mapErr関数 - エラーの変換', () => {
+    it('チェーン内の失敗のエラーを変換できる', async () => {
+      const result = await Do(-1)
+        .ensure(x => x > 0, 'not positive')
+        .mapErr(message => ({ code: 'VALIDATION', message }))
+        .run();
+      
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual({ code: 'VALIDATION', message: 'not positive' });
+      }
+    });
+
+    it('成功時はmapErrが実行されない', async () => {
+      let called = false;
+      const result = await Do(10)
+        .mapErr(message => {
+          called = true;
+          return message.length;
+        })
+        .map(x => x + 1)
+        .run();
+      
+      expect(called).toBe(false);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe(11);
+      }
+    });
+
+    it('mapErrAsyncで非同期にエラーを変換できる', async () => {
+      const result = await Do('input')
+        .chain(() => err('raw error'))
+        .mapErrAsync(async message => {
+          await new Promise(resolve => setTimeout(resolve, 10));
+          return new Error(message);
+        })
+        .run();
+      
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBeInstanceOf(Error);
+        expect(result.error.message).toBe('raw error');
+      }
+    });
+  });
+
+  describe('orElse/recover関数 - 失敗からの復旧', () => {
+    it('orElseで失敗したチェーンを成功に戻せる', async () => {
+      const result = await Do('missing')
+        .chain(key => key === 'hit' ? ok('cached') : err('cache miss'))
+        .orElse(() => ok('from db'))
+        .map(value => value.toUpperCase())
+        .run();
+      
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe('FROM DB');
+      }
+    });
+
+    it('成功時はorElseが実行されない', async () => {
+      let called = false;
+      const result = await Do(1)
+        .orElse(() => {
+          called = true;
+          return ok(2);
+        })
+        .run();
+      
+      expect(called).toBe(false);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe(1);
+      }
+    });
+
+    it('orElseAsyncで非同期に復旧できる', async () => {
+      const result = await Do(0)
+        .ensure(x => x > 0, 'not positive')
+        .orElseAsync(async message => {
+          await new Promise(resolve => setTimeout(resolve, 10));
+          return message === 'not positive' ? ok(1) : err('unrecoverable');
+        })
+        .map(x => x * 10)
+        .run();
+      
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe(10);
+      }
+    });
+
+    it('recoverでデフォルト値に置き換えられる', async () => {
+      const result = await Do('{invalid')
+        .chain(json => {
+          try {
+            return ok(JSON.parse(json) as { retries: number });
+          } catch {
+            return err('parse failed');
+          }
+        })
+        .recover(() => ({ retries: 3 }))
+        .map(config => config.retries)
+        .run();
+      
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe(3);
+      }
+    });
+
+    it('recoverAsyncで非同期に取得した値に置き換えられる', async () => {
+      const result = await Do(5)
+        .ensure(x => x > 10, 'too small')
+        .recoverAsync(async () => {
+          await new Promise(resolve => setTimeout(resolve, 10));
+          return 10;
+        })
+        .run();
+      
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe(10);
+      }
+    });
+  });
+
+  describe('tap/tapErr/tapAsync関数 - 途中の値の確認', () => {
+    it('tapで途中の値を記録しても値は変わらない', async () => {
+      const logs: number[] = [];
+      const result = await Do(10)
+        .tap(value => logs.push(value))
+        .map(value => value * 2)
+        .tap(value => logs.push(value));
+      
+      expect(logs).toEqual([10, 20]);
+      expect(result).toEqual(ok(20));
+    });
+
+    it('tapErrは失敗時のみ実行される', async () => {
+      const errors: string[] = [];
+      const result = await Do(-1)
+        .tapErr(error => errors.push(error))
+        .ensure(value => value > 0, 'NEGATIVE')
+        .tap(() => errors.push('unreachable'))
+        .tapErr(error => errors.push(error));
+      
+      expect(errors).toEqual(['NEGATIVE']);
+      expect(result).toEqual(err('NEGATIVE'));
+    });
+
+    it('tapAsyncは副作用の完了を待ってから次のステップに進む', async () => {
+      const events: string[] = [];
+      await Do('data')
+        .tapAsync(async () => {
+          await new Promise(resolve => setTimeout(resolve, 10));
+          events.push('saved');
+        })
+        .tap(() => events.push('next'));
+      
+      expect(events).toEqual(['saved', 'next']);
+    });
+
+    it('副作用の例外はチェーン全体の拒否として伝播する', async () => {
+      await expect(
+        Do(1).tap(() => {
+          throw new Error('log failed');
+        })
+      ).rejects.toThrow('log failed');
+      await expect(
+        Do(1).tapAsync(() => Promise.reject(new Error('log failed')))
+      ).rejects.toThrow('log failed');
+    });
+  });
+
+  describe('match/matchTag関数 - 終端でのパターンマッチ', () => {
+    it('成功時はokハンドラの値で解決される', async () => {
+      const message = await Do(21)
+        .map(x => x * 2)
+        .match({
+          ok: value => `answer: ${value}`,
+          err: error => `error: ${error}`
+        });
+      
+      expect(message).toBe('answer: 42');
+    });
+
+    it('失敗時はerrハンドラの値で解決される', async () => {
+      const message = await Do(-1)
+        .ensure(x => x > 0, 'not positive')
+        .match({
+          ok: value => `answer: ${value}`,
+          err: error => `error: ${error}`
+        });
+      
+      expect(message).toBe('error: not positive');
+    });
+
+    it('非同期ハンドラの結果を待ち合わせる', async () => {
+      const value = await Do(1).match({
+        ok: async value => {
+          await new Promise(resolve => setTimeout(resolve, 10));
+          return value + 1;
+        },
+        err: () => 0
+      });
+      
+      expect(value).toBe(2);
+    });
+
+    it('matchTagでエラーの種類ごとに処理できる', async () => {
+      type FetchError = { kind: 'timeout'; ms: number } | { kind: 'status'; code: number };
+
+      const fetchStatus = async (code: number): Promise<Result<string, FetchError>> =>
+        code === 0 ? err({ kind: 'timeout', ms: 3000 }) : code >= 400 ? err({ kind: 'status', code }) : ok('body');
+
+      const handle = (code: number) =>
+        Do<number, FetchError>(code)
+          .chainAsync(fetchStatus)
+          .matchTag('kind', {
+            ok: body => body,
+            err: {
+              timeout: e => `timeout after ${e.ms}ms`,
+              status: async e => `status ${e.code}`
+            }
+          });
+      
+      expect(await handle(200)).toBe('body');
+      expect(await handle(0)).toBe('timeout after 3000ms');
+      expect(await handle(503)).toBe('status 503');
+    });
+  });
+
+  describe('unwrap系関数 - 終端での値の取り出し', () => {
+    it('unwrapで成功値を取り出せる', async () => {
+      const value = await Do(5).map(x => x * 2).unwrap();
+      
+      expect(value).toBe(10);
+    });
+
+    it('unwrapは失敗時にUnwrapErrorで拒否される', async () => {
+      const chain = Do(5).ensure(x => x > 10, 'too small');
+      
+      await expect(chain.unwrap()).rejects.toBeInstanceOf(UnwrapError);
+      await expect(chain.unwrap()).rejects.toMatchObject({ error: 'too small' });
+    });
+
+    it('unwrapOr/unwrapOrElseで失敗時の値を指定できる', async () => {
+      const chain = Do(5).ensure(x => x > 10, 'too small');
+      
+      expect(await chain.unwrapOr(0)).toBe(0);
+      expect(await chain.unwrapOrElse(async error => error.length)).toBe(9);
+    });
+
+    it('expectは失敗時に指定したメッセージで拒否される', async () => {
+      await expect(Do(1).expect('must succeed')).resolves.toBe(1);
+      await expect(
+        Do(1).chain(() => err('boom')).expect('must succeed')
+      ).rejects.toThrow('must succeed');
+    });
+
+    it('unwrapErrで失敗のエラーを取り出せる', async () => {
+      const error = await Do(1).chain(() => err('boom')).unwrapErr();
+      
+      expect(error).toBe('boom');
+      await expect(Do(1).unwrapErr()).rejects.toBeInstanceOf(UnwrapError);
+    });
+  });
+
+  describe('bind/let/bindTo関数 - 名前付きの束縛', () => {
+    interface User {
+      id: number;
+      name: string;
+    }
+
+    interface Order {
+      price: number;
+    }
+
+    type UserError = { type: 'USER_NOT_FOUND' };
+    type OrderError = { type: 'ORDERS_UNAVAILABLE' };
+
+    const fetchUser = (id: number): Result<User, UserError> =>
+      id === 1 ? ok({ id, name: 'Alice' }) : err({ type: 'USER_NOT_FOUND' });
+
+    const fetchOrders = async (userId: number): Promise<Result<Order[], OrderError>> => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return userId === 1
+        ? ok([{ price: 100 }, { price: 250 }])
+        : err({ type: 'ORDERS_UNAVAILABLE' });
+    };
+
+    it('前のステップの結果をスコープから参照できる', async () => {
+      const result = await Do.bind('user', () => fetchUser(1))
+        .bind('orders', ({ user }) => fetchOrders(user.id))
+        .let('total', ({ orders }) => orders.reduce((sum, order) => sum + order.price, 0))
+        .map(({ user, total }) => `${user.name}: ${total}`);
+      
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe('Alice: 350');
+      }
+    });
+
+    it('スコープの型とエラーのユニオンが蓄積される', async () => {
+      const chain = Do.bind('user', () => fetchUser(2))
+        .bind('orders', ({ user }) => fetchOrders(user.id))
+        .let('count', ({ orders }) => orders.length, () => 'COUNT_FAILED' as const);
+      
+      expectTypeOf(chain).toEqualTypeOf<
+        ResultChain<
+          { readonly user: User; readonly orders: Order[]; readonly count: number },
+          UserError | OrderError | 'COUNT_FAILED'
+        >
+      >();
+      
+      const result = await chain;
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual({ type: 'USER_NOT_FOUND' });
+      }
+    });
+
+    it('失敗した後の束縛関数は呼ばれない', async () => {
+      let called = false;
+      const result = await Do.let('id', () => 2)
+        .bind('user', ({ id }) => fetchUser(id))
+        .bind('orders', ({ user }) => {
+          called = true;
+          return fetchOrders(user.id);
+        });
+      
+      expect(called).toBe(false);
+      expect(isErr(result)).toBe(true);
+    });
+
+    it('bindToで現在の値をスコープに変換できる', async () => {
+      const result = await Do(1)
+        .chain(fetchUser)
+        .bindTo('user')
+        .bind('orders', ({ user }) => fetchOrders(user.id));
+      
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data.user.name).toBe('Alice');
+        expect(result.data.orders).toHaveLength(2);
+      }
+    });
+
+    it('successやthenという名前のキーもスコープにそのまま束縛される', async () => {
+      const result = await Do.let('success', () => false)
+        .let('then', () => 'next')
+        .bind('data', () => ok(1));
+      const wrapped = await Do(false).bindTo('success');
+
+      expect(result).toEqual(ok({ success: false, then: 'next', data: 1 }));
+      expect(wrapped).toEqual(ok({ success: false }));
+    });
+  });
+
   describe('複合的な使用例', () => {
     // ユーザー入力処理の例
     interface UserInput {
@@ -0,0 +1,159 @@
+/**
+ * @fileoverview 構造化されたドメインエラーのテスト
+ * 
+ * このファイルでは、AppError/TaggedError/defineErrors の動作をテストします。
+ * エラーのユニオンを一度定義し、コンストラクタ・型ガード・matchを得る使用例も含まれています。
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  ok,
+  err,
+  isErr,
+  matchTag,
+  AppError,
+  TaggedError,
+  defineErrors,
+  type DefinedErrors,
+  type Result
+} from '../index.js';
+
+describe('AppError - 構造化されたエラーの基底クラス', () => {
+  it('タグ・コード・コンテキスト・メッセージを持つ', () => {
+    const error = new AppError('RateLimited', { retryAfter: 30 }, { message: 'Too many requests' });
+    
+    expect(error).toBeInstanceOf(Error);
+    expect(error._tag).toBe('RateLimited');
+    expect(error.name).toBe('RateLimited');
+    expect(error.code).toBe('RateLimited');
+    expect(error.message).toBe('Too many requests');
+    expect(error.context.retryAfter).toBe(30);
+  });
+
+  it('コードを上書きでき、メッセージは省略するとタグになる', () => {
+    const error = new AppError('RateLimited', {}, { code: 'E429' });
+    
+    expect(error.code).toBe('E429');
+    expect(error.message).toBe('RateLimited');
+  });
+
+  it('causeで元のエラーを連鎖できる', () => {
+    const cause = new Error('ECONNRESET');
+    const error = new AppError('Network', {}, { cause });
+    
+    expect(error.cause).toBe(cause);
+    expect(Object.keys(error)).not.toContain('cause');
+    expect('cause' in new AppError('Network', {})).toBe(false);
+  });
+});
+
+describe('TaggedError - タグ付きエラークラスの作成', () => {
+  class NotFound extends TaggedError('NotFound')<{ resource: string; id: string }> {}
+  class Timeout extends TaggedError('Timeout') {}
+
+  it('タグと型付きのコンテキストを持つクラスを作れる', () => {
+    const error = new NotFound({ resource: 'user', id: '42' }, { message: 'user 42 not found' });
+    
+    expectTypeOf(error._tag).toEqualTypeOf<'NotFound'>();
+    expectTypeOf(error.context).toEqualTypeOf<{ resource: string; id: string }>();
+    expect(error).toBeInstanceOf(AppError);
+    expect(error).toBeInstanceOf(NotFound);
+    expect(error.context.id).toBe('42');
+    expect(NotFound.tag).toBe('NotFound');
+  });
+
+  it('コンテキストのないエラーは引数なしで作れる', () => {
+    const error = new Timeout();
+    
+    expect(error._tag).toBe('Timeout');
+    expect(error.context).toEqual({});
+  });
+
+  it('isでクラスごとに判定できる', () => {
+    const error: unknown = new Timeout();
+    
+    expect(NotFound.is(error)).toBe(false);
+    expect(Timeout.is(error)).toBe(true);
+    if (Timeout.is(error)) {
+      expectTypeOf(error).toEqualTypeOf<Timeout>();
+    }
+  });
+
+  it('matchTagで_tagごとに処理できる', () => {
+    const load = (id: string): Result<string, NotFound | Timeout> =>
+      id === 'slow' ? err(new Timeout()) : id === '1' ? ok('Alice') : err(new NotFound({ resource: 'user', id }));
+    
+    const summarize = (id: string) =>
+      matchTag(load(id), '_tag', {
+        ok: name => name,
+        err: {
+          NotFound: error => `missing ${error.context.id}`,
+          Timeout: () => 'timeout'
+        }
+      });
+    
+    expect(summarize('1')).toBe('Alice');
+    expect(summarize('2')).toBe('missing 2');
+    expect(summarize('slow')).toBe('timeout');
+  });
+});
+
+describe('defineErrors - エラーのユニオンの一括定義', () => {
+  const UserError = defineErrors({
+    NotFound: (id: string) => ({ message: `User ${id} not found`, context: { id } }),
+    Invalid: (field: string, cause?: unknown) => ({ context: { field }, cause, code: 'E_INVALID' }),
+    Forbidden: () => ({ message: 'Forbidden' })
+  });
+  type UserError = DefinedErrors<typeof UserError>;
+
+  it('タグごとのコンストラクタでエラーを作れる', () => {
+    const notFound = UserError.NotFound('42');
+    const invalid = UserError.Invalid('email', new Error('bad format'));
+    
+    expectTypeOf(notFound).toEqualTypeOf<AppError<'NotFound', { id: string }>>();
+    expect(notFound.message).toBe('User 42 not found');
+    expect(notFound.context).toEqual({ id: '42' });
+    expect(invalid.code).toBe('E_INVALID');
+    expect((invalid.cause as Error).message).toBe('bad format');
+    expect(UserError.Forbidden().context).toEqual({});
+  });
+
+  it('型ガードでユニオン全体とタグごとに判定できる', () => {
+    const values: unknown[] = [UserError.NotFound('1'), UserError.Forbidden(), new Error('plain')];
+    
+    expect(values.map(UserError.is)).toEqual([true, true, false]);
+    expect(values.map(UserError.Forbidden.is)).toEqual([false, true, false]);
+  });
+
+  it('matchでタグごとのハンドラを網羅的に実行できる', () => {
+    const toStatus = (error: UserError) =>
+      UserError.match(error, {
+        NotFound: () => 404,
+        Invalid: () => 400,
+        Forbidden: () => 403
+      });
+    
+    expectTypeOf(toStatus).returns.toEqualTypeOf<number>();
+    expect(toStatus(UserError.NotFound('1'))).toBe(404);
+    expect(toStatus(UserError.Invalid('name'))).toBe(400);
+    expect(toStatus(UserError.Forbidden())).toBe(403);
+  });
+
+  it('Resultのエラー型として使える', () => {
+    const findUser = (id: string): Result<{ id: string }, UserError> =>
+      id === 'admin' ? err(UserError.Forbidden()) : err(UserError.NotFound(id));
+    
+    const result = findUser('9');
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(UserError.NotFound.is(result.error)).toBe(true);
+    }
+  });
+
+  it('isやmatchという名前のタグはヘルパーと衝突するため定義できない', () => {
+    // @ts-expect-error 予約されたタグ名は型エラーになる
+    expect(() => defineErrors({ is: () => ({ message: 'is' }) })).toThrow(TypeError);
+    // @ts-expect-error 予約されたタグ名は型エラーになる
+    expect(() => defineErrors({ Ok: () => ({}), match: () => ({}) })).toThrow('"match" is reserved');
+  });
+});
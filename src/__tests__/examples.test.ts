@@ -14,6 +14,7 @@ import {
   isOk,
   isErr,
   Do,
+  gen,
   type Result
 } from '../index.js';
 
@@ -168,6 +169,56 @@ describe('実用的な使用例', () => {
     });
   });
 
+  describe('ユーザー登録フォームの一括検証', () => {
+    const validateUsername = (username: string): Result<string, string> => {
+      if (username.length < 3) return err('ユーザー名は3文字以上である必要があります');
+      if (!/^[a-zA-Z0-9_]+$/.test(username)) return err('ユーザー名は英数字とアンダースコアのみ使用可能です');
+      return ok(username);
+    };
+
+    const validateEmail = (email: string): Result<string, string> => {
+      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      if (!emailRegex.test(email)) return err('有効なメールアドレスを入力してください');
+      return ok(email);
+    };
+
+    const validatePassword = (password: string): Result<string, string> => {
+      if (password.length < 8) return err('パスワードは8文字以上である必要があります');
+      return ok(password);
+    };
+
+    const validateForm = (form: { username: string; email: string; password: string }) =>
+      Do(form)
+        .validate({
+          username: data => validateUsername(data.username),
+          email: data => validateEmail(data.email),
+          password: data => validatePassword(data.password)
+        })
+        .run();
+
+    it('UIに表示するためにすべてのエラーをまとめて取得できる', async () => {
+      const result = await validateForm({ username: 'ab', email: 'invalid', password: 'short' });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual([
+          'ユーザー名は3文字以上である必要があります',
+          '有効なメールアドレスを入力してください',
+          'パスワードは8文字以上である必要があります'
+        ]);
+      }
+    });
+
+    it('すべての項目が有効な場合は検証済みのデータを返す', async () => {
+      const result = await validateForm({ username: 'john_doe', email: 'john@example.com', password: 'SecurePass123' });
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toEqual({ username: 'john_doe', email: 'john@example.com', password: 'SecurePass123' });
+      }
+    });
+  });
+
   describe('ファイル処理システム', () => {
     interface FileMetadata {
       name: string;
@@ -288,6 +339,29 @@ describe('実用的な使用例', () => {
         expect(result.error).toBe('ファイルが破損しています');
       }
     });
+
+    it('ジェネレータで中間結果を変数として扱う', async () => {
+      const processFile = (metadata: FileMetadata) =>
+        gen(async function* () {
+          yield* validateFileSize(metadata);
+          yield* validateFileType(metadata);
+          const content = yield* await readFileContent(metadata);
+          const checksum = yield* await calculateChecksum(content);
+          return ok<ProcessedFile>({ ...metadata, content, checksum });
+        });
+
+      const valid = await processFile({ name: 'document.txt', size: 1024, type: 'text/plain' });
+      const corrupted = await processFile({ name: 'corrupted.txt', size: 1024, type: 'text/plain' });
+
+      expect(isOk(valid)).toBe(true);
+      if (isOk(valid)) {
+        expect(valid.data.checksum).toBe('checksum_23');
+      }
+      expect(isErr(corrupted)).toBe(true);
+      if (isErr(corrupted)) {
+        expect(corrupted.error).toBe('ファイルが破損しています');
+      }
+    });
   });
 
   describe('APIクライアントシステム', () => {
@@ -0,0 +1,68 @@
+/**
+ * @fileoverview 条件による絞り込みのテスト
+ * 
+ * このファイルでは、filterOrElse 関数の動作をテストします。
+ * 型ガードによる成功値の型の絞り込みの使用例も含まれています。
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { ok, err, isOk, isErr, filterOrElse, type Result } from '../index.js';
+
+type Shape = { kind: 'circle'; radius: number } | { kind: 'square'; size: number };
+type Circle = Extract<Shape, { kind: 'circle' }>;
+
+const loadShape = (json: string): Result<Shape, 'INVALID_JSON'> => {
+  try {
+    return ok(JSON.parse(json) as Shape);
+  } catch {
+    return err('INVALID_JSON');
+  }
+};
+
+describe('filterOrElse関数 - 条件を満たさない成功値を失敗に変換', () => {
+  it('条件を満たす場合は成功値をそのまま返す', () => {
+    const result = filterOrElse(ok(10), n => n > 0, n => `${n}は正の数ではありません`);
+    
+    expect(result).toEqual(ok(10));
+  });
+
+  it('条件を満たさない場合はファクトリ関数のエラーを返す', () => {
+    const result = filterOrElse(ok(-1), n => n > 0, n => `${n}は正の数ではありません`);
+    
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toBe('-1は正の数ではありません');
+    }
+  });
+
+  it('失敗はそのまま返し、条件を評価しない', () => {
+    let called = false;
+    const result = filterOrElse(
+      loadShape('{'),
+      () => {
+        called = true;
+        return true;
+      },
+      () => 'UNREACHABLE' as const
+    );
+    
+    expect(called).toBe(false);
+    expect(result).toEqual(err('INVALID_JSON'));
+  });
+
+  it('型ガードを渡すと成功値の型が絞り込まれ、エラー型は合成される', () => {
+    const result = filterOrElse(
+      loadShape('{"kind": "circle", "radius": 2}'),
+      (shape): shape is Circle => shape.kind === 'circle',
+      shape => ({ type: 'NOT_CIRCLE' as const, kind: shape.kind })
+    );
+    
+    expectTypeOf(result).toEqualTypeOf<
+      Result<Circle, 'INVALID_JSON' | { type: 'NOT_CIRCLE'; kind: 'circle' | 'square' }>
+    >();
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.data.radius).toBe(2);
+    }
+  });
+});
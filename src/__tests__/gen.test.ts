@@ -0,0 +1,124 @@
+/**
+ * @fileoverview ジェネレータによるDo記法のテスト
+ * 
+ * このファイルでは、gen/safeTry 関数の動作をテストします。
+ * yield* で成功値を取り出し、失敗で処理を打ち切る使用例も含まれています。
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { ok, err, isOk, isErr, gen, safeTry, type Result } from '../index.js';
+
+type ParseError = { type: 'PARSE_ERROR'; input: string };
+type RangeError = { type: 'RANGE_ERROR'; value: number };
+
+const parse = (input: string): Result<number, ParseError> => {
+  const value = Number(input);
+  return Number.isNaN(value) ? err({ type: 'PARSE_ERROR', input }) : ok(value);
+};
+
+const checkRange = (value: number): Result<number, RangeError> =>
+  value >= 0 && value <= 100 ? ok(value) : err({ type: 'RANGE_ERROR', value });
+
+const fetchScore = async (id: number): Promise<Result<number, 'NOT_FOUND'>> => {
+  await new Promise(resolve => setTimeout(resolve, 10));
+  return id === 1 ? ok(80) : err('NOT_FOUND');
+};
+
+describe('gen関数 - ジェネレータによるDo記法', () => {
+  describe('同期ジェネレータ', () => {
+    it('yield*で成功値を取り出せる', () => {
+      const result = gen(function* () {
+        const a = yield* parse('10');
+        const b = yield* checkRange(a * 2);
+        return ok(a + b);
+      });
+      
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe(30);
+      }
+    });
+
+    it('最初の失敗で処理を打ち切る', () => {
+      const steps: string[] = [];
+      const result = gen(function* () {
+        const a = yield* parse('abc');
+        steps.push('after parse');
+        return ok(a);
+      });
+      
+      expect(steps).toEqual([]);
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual({ type: 'PARSE_ERROR', input: 'abc' });
+      }
+    });
+
+    it('returnした失敗もそのまま返す', () => {
+      const result = gen(function* () {
+        const a = yield* parse('5');
+        return a > 3 ? err('TOO_BIG' as const) : ok(a);
+      });
+      
+      expect(result).toEqual(err('TOO_BIG'));
+    });
+
+    it('失敗で打ち切ってもfinallyブロックが実行される', () => {
+      let cleanedUp = false;
+      gen(function* () {
+        try {
+          yield* parse('abc');
+          return ok(undefined);
+        } finally {
+          cleanedUp = true;
+        }
+      });
+      
+      expect(cleanedUp).toBe(true);
+    });
+
+    it('すべてのyield*とreturnのエラー型がユニオンになる', () => {
+      const result = gen(function* () {
+        const a = yield* parse('150');
+        const b = yield* checkRange(a);
+        return b % 2 === 0 ? ok(String(b)) : err('ODD' as const);
+      });
+      
+      expectTypeOf(result).toEqualTypeOf<Result<string, ParseError | RangeError | 'ODD'>>();
+      expect(result).toEqual(err({ type: 'RANGE_ERROR', value: 150 }));
+    });
+  });
+
+  describe('非同期ジェネレータ', () => {
+    it('awaitした結果をyield*で取り出せる', async () => {
+      const result = await gen(async function* () {
+        const score = yield* await fetchScore(1);
+        const checked = yield* checkRange(score + 10);
+        return ok(checked);
+      });
+      
+      expectTypeOf(result).toEqualTypeOf<Result<number, 'NOT_FOUND' | RangeError>>();
+      expect(result).toEqual(ok(90));
+    });
+
+    it('非同期の失敗で処理を打ち切る', async () => {
+      let reached = false;
+      const result = await gen(async function* () {
+        const score = yield* await fetchScore(2);
+        reached = true;
+        return ok(score);
+      });
+      
+      expect(reached).toBe(false);
+      expect(result).toEqual(err('NOT_FOUND'));
+    });
+  });
+
+  it('safeTryはgenの別名として使える', () => {
+    const result = safeTry(function* () {
+      return ok(yield* parse('42'));
+    });
+    
+    expect(result).toEqual(ok(42));
+  });
+});
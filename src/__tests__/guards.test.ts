@@ -224,7 +224,9 @@ describe('型ガード関数', () => {
 
   describe('型安全性の検証', () => {
     it('型ガード後のプロパティアクセスが型安全である', () => {
-      const result: Result<{ value: number }, { code: string }> = ok({ value: 42 });
+      // 宣言時の代入でSuccessに絞り込まれないよう、Result型を返す関数から受け取る
+      const load = (): Result<{ value: number }, { code: string }> => ok({ value: 42 });
+      const result = load();
 
       if (isOk(result)) {
         // TypeScriptコンパイラが result.data の型を正しく推論
@@ -287,7 +287,7 @@ describe('統合テスト', () => {
       
       const results = await Promise.all(
         ids.map(async id => {
-          const promiseResult = fromPromise(fetchExternalData(id));
+          const promiseResult = fromPromise(fetchExternalData(id), error => error as Error);
           return await mapPromiseResult(promiseResult, processExternalData);
         })
       );
@@ -0,0 +1,104 @@
+/**
+ * @fileoverview パターンマッチングのテスト
+ * 
+ * このファイルでは、match メソッドと matchTag 関数の動作をテストします。
+ * 判別可能なエラーのユニオンをタグごとに網羅的に処理する使用例も含まれています。
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { ok, err, matchTag, type Result } from '../index.js';
+
+type NotFound = { _tag: 'NotFound'; id: string };
+type Invalid = { _tag: 'Invalid'; field: string };
+type Forbidden = { _tag: 'Forbidden' };
+type UserError = NotFound | Invalid | Forbidden;
+
+const findUser = (id: string): Result<{ id: string; name: string }, UserError> => {
+  if (id === '') return err({ _tag: 'Invalid', field: 'id' });
+  if (id === 'root') return err({ _tag: 'Forbidden' });
+  if (id !== '1') return err({ _tag: 'NotFound', id });
+  return ok({ id, name: 'Alice' });
+};
+
+describe('パターンマッチング', () => {
+  describe('matchメソッド - 成功・失敗のハンドラ', () => {
+    it('成功時はokハンドラの値を返す', () => {
+      const message = findUser('1').match({
+        ok: user => `Hello, ${user.name}`,
+        err: error => `Error: ${error._tag}`
+      });
+
+      expect(message).toBe('Hello, Alice');
+    });
+
+    it('失敗時はerrハンドラの値を返す', () => {
+      const message = findUser('2').match({
+        ok: user => `Hello, ${user.name}`,
+        err: error => `Error: ${error._tag}`
+      });
+
+      expect(message).toBe('Error: NotFound');
+    });
+
+    it('ハンドラの戻り値の型がユニオンになる', () => {
+      const value = findUser('1').match({
+        ok: user => user.name.length,
+        err: () => null
+      });
+
+      expectTypeOf(value).toEqualTypeOf<number | null>();
+      expect(value).toBe(5);
+    });
+  });
+
+  describe('matchTag関数 - タグによるエラーの網羅的な処理', () => {
+    const describeUser = (id: string) =>
+      matchTag(findUser(id), '_tag', {
+        ok: user => `found ${user.name}`,
+        err: {
+          NotFound: e => `no user ${e.id}`,
+          Invalid: e => `invalid ${e.field}`,
+          Forbidden: () => 'forbidden'
+        }
+      });
+
+    it('成功時はokハンドラが実行される', () => {
+      expect(describeUser('1')).toBe('found Alice');
+    });
+
+    it('エラーの種類ごとに対応するハンドラが実行される', () => {
+      expect(describeUser('42')).toBe('no user 42');
+      expect(describeUser('')).toBe('invalid id');
+      expect(describeUser('root')).toBe('forbidden');
+    });
+
+    it('ハンドラごとの戻り値の型がユニオンになる', () => {
+      const value = matchTag(findUser('1'), '_tag', {
+        ok: user => user.name,
+        err: {
+          NotFound: () => 404,
+          Invalid: () => 400,
+          Forbidden: () => false
+        }
+      });
+
+      expectTypeOf(value).toEqualTypeOf<string | number | boolean>();
+    });
+
+    it('チェーンで合成されたエラーのユニオンにも使える', () => {
+      const result = findUser('1')
+        .andThen(user => user.name === 'Alice' ? err<Forbidden>({ _tag: 'Forbidden' }) : ok(user));
+
+      const value = matchTag(result, '_tag', {
+        ok: () => 'ok',
+        err: {
+          NotFound: () => 'not found',
+          Invalid: () => 'invalid',
+          Forbidden: () => 'forbidden'
+        }
+      });
+
+      expect(value).toBe('forbidden');
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * @fileoverview Option型のテスト
+ * 
+ * このファイルでは、some/none と fromNullable の動作、および
+ * Option と Result の相互変換をテストします。
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  ok,
+  err,
+  some,
+  none,
+  fromNullable,
+  isSome,
+  isNone,
+  isOk,
+  isErr,
+  Do,
+  UnwrapError,
+  type Option,
+  type Result
+} from '../index.js';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+const users: User[] = [{ id: 1, name: 'Alice' }];
+
+const findUser = (id: number): Option<User> => fromNullable(users.find(user => user.id === id));
+
+describe('Option型', () => {
+  describe('some/none - Optionの作成', () => {
+    it('someは値を持つOptionを作成する', () => {
+      const option = some(42);
+      
+      expect(option.some).toBe(true);
+      expect(option.value).toBe(42);
+      expect(isSome(option)).toBe(true);
+    });
+
+    it('noneは値を持たないOptionを表す', () => {
+      expect(none.some).toBe(false);
+      expect(isNone(none)).toBe(true);
+    });
+
+    it('fromNullableはnullとundefinedをnoneに変換する', () => {
+      expect(fromNullable(null)).toBe(none);
+      expect(fromNullable(undefined)).toBe(none);
+      expect(fromNullable(0)).toEqual(some(0));
+      expect(fromNullable('')).toEqual(some(''));
+    });
+  });
+
+  describe('map/flatMap/orElse - Optionの変換', () => {
+    it('mapはsomeの値を変換し、noneはそのまま返す', () => {
+      expect(findUser(1).map(user => user.name)).toEqual(some('Alice'));
+      expect(findUser(2).map(user => user.name)).toBe(none);
+    });
+
+    it('flatMap/andThenはOptionを返す関数でチェーンする', () => {
+      const initial = (user: User): Option<string> => fromNullable(user.name[0]);
+      
+      expect(findUser(1).flatMap(initial)).toEqual(some('A'));
+      expect(findUser(2).andThen(initial)).toBe(none);
+    });
+
+    it('orElseはnoneのときだけ別のOptionにフォールバックする', () => {
+      const guest = (): Option<User> => some({ id: 0, name: 'Guest' });
+      
+      expect(findUser(1).orElse(guest)).toEqual(some({ id: 1, name: 'Alice' }));
+      expect(findUser(2).orElse(guest)).toEqual(some({ id: 0, name: 'Guest' }));
+    });
+
+    it('tapはsomeのときだけ副作用を実行する', () => {
+      const logs: string[] = [];
+      findUser(1).tap(user => logs.push(user.name));
+      findUser(2).tap(user => logs.push(user.name));
+      
+      expect(logs).toEqual(['Alice']);
+    });
+  });
+
+  describe('match/unwrap系 - 値の取り出し', () => {
+    it('matchは値の有無に応じたハンドラの戻り値を返す', () => {
+      const greet = (option: Option<User>) =>
+        option.match({ some: user => `Hello, ${user.name}`, none: () => 'Who are you?' });
+      
+      expect(greet(findUser(1))).toBe('Hello, Alice');
+      expect(greet(findUser(2))).toBe('Who are you?');
+    });
+
+    it('unwrapOr/unwrapOrElseはnoneのとき代替値を返す', () => {
+      expect(some(1).unwrapOr(0)).toBe(1);
+      expect(none.unwrapOr(0)).toBe(0);
+      expect(none.unwrapOrElse(() => 'computed')).toBe('computed');
+    });
+
+    it('unwrap/expectはnoneのときUnwrapErrorを投げる', () => {
+      expect(some('x').unwrap()).toBe('x');
+      expect(() => none.unwrap()).toThrow(UnwrapError);
+      expect(() => none.expect('ユーザーが必要です')).toThrow('ユーザーが必要です');
+    });
+  });
+
+  describe('Resultとの相互変換', () => {
+    it('toResultはnoneを指定したエラーの失敗に変換する', () => {
+      const found = findUser(1).toResult('USER_NOT_FOUND' as const);
+      const missing = findUser(2).toResult('USER_NOT_FOUND' as const);
+      
+      expectTypeOf(missing).toEqualTypeOf<Result<User, 'USER_NOT_FOUND'>>();
+      expect(isOk(found)).toBe(true);
+      expect(missing).toEqual(err('USER_NOT_FOUND'));
+    });
+
+    it('toOptionは失敗のエラーを捨ててnoneに変換する', () => {
+      const parse = (input: string): Result<number, string> =>
+        Number.isNaN(Number(input)) ? err('NaN') : ok(Number(input));
+      
+      expectTypeOf(parse('1').toOption()).toEqualTypeOf<Option<number>>();
+      expect(parse('1').toOption()).toEqual(some(1));
+      expect(parse('x').toOption()).toBe(none);
+    });
+
+    it('エラーを渡したfromNullableはResultを返す', () => {
+      const name: string | undefined = users[0]?.name;
+      const result = fromNullable(name, 'NO_NAME' as const);
+      
+      expectTypeOf(result).toEqualTypeOf<Result<string, 'NO_NAME'>>();
+      expect(result).toEqual(ok('Alice'));
+      expect(fromNullable(null, 'NO_NAME')).toEqual(err('NO_NAME'));
+    });
+  });
+
+  describe('ResultChain.fromNullable - nullable値の失敗への変換', () => {
+    it('nullやundefinedを失敗に変換し、型からnullableを除く', async () => {
+      const lookup = (id: number) =>
+        Do<number, never>(id)
+          .chain(id => ok(users.find(user => user.id === id)))
+          .fromNullable('USER_NOT_FOUND' as const)
+          .chain(user => ok(user.name));
+      
+      const found = await lookup(1);
+      const missing = await lookup(2);
+      
+      expectTypeOf(missing).toEqualTypeOf<Result<string, 'USER_NOT_FOUND'>>();
+      expect(found).toEqual(ok('Alice'));
+      expect(isErr(missing)).toBe(true);
+      if (isErr(missing)) {
+        expect(missing.error).toBe('USER_NOT_FOUND');
+      }
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * @fileoverview パイプラインのテスト
+ *
+ * このファイルでは、pipeline関数とPipelineクラスの動作をテストします。
+ * 一度定義したパイプラインを異なる入力で何度も実行する使用例や、
+ * パイプライン同士を組み合わせる使用例も含まれています。
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  ok,
+  err,
+  isOk,
+  isErr,
+  pipeline,
+  Pipeline,
+  AbortedError,
+  type Result,
+  type AbortSignalLike
+} from '../index.js';
+
+interface User {
+  id: number;
+  name: string;
+  age: number;
+}
+
+const users: Record<number, User> = {
+  1: { id: 1, name: 'Alice', age: 30 },
+  2: { id: 2, name: 'Bob', age: 15 }
+};
+
+// ユーザー取得APIをシミュレート
+const fetchUser = async (id: number): Promise<Result<User, 'NOT_FOUND'>> =>
+  users[id] ? ok(users[id]) : err('NOT_FOUND');
+
+describe('pipeline関数とPipelineクラス', () => {
+  describe('定義と実行', () => {
+    it('定義しただけではステップを実行しない', async () => {
+      const calls: number[] = [];
+      const double = pipeline<number>().tap(n => calls.push(n)).map(n => n * 2);
+
+      expect(calls).toEqual([]);
+      expect(await double.run(21)).toEqual(ok(42));
+      expect(calls).toEqual([21]);
+    });
+
+    it('compileした関数は異なる入力で何度でも実行できる', async () => {
+      const loadAdultName = pipeline<number, never>()
+        .chainAsync(fetchUser)
+        .ensure(user => user.age >= 18, 'UNDERAGE' as const)
+        .chain(user => ok(user.name))
+        .compile();
+
+      expect(await loadAdultName(1)).toEqual(ok('Alice'));
+      expect(await loadAdultName(2)).toEqual(err('UNDERAGE'));
+      expect(await loadAdultName(3)).toEqual(err('NOT_FOUND'));
+      expect(await loadAdultName(1)).toEqual(ok('Alice'));
+      expectTypeOf(loadAdultName).toEqualTypeOf<
+        (input: number, signal?: AbortSignalLike) => Promise<Result<string, 'NOT_FOUND' | 'UNDERAGE' | AbortedError>>
+      >();
+    });
+
+    it('ステップを追加しても元のパイプラインは変わらない', async () => {
+      const base = pipeline<number>().map(n => n + 1);
+      const extended = base.map(n => n * 10);
+
+      expect(await base.run(1)).toEqual(ok(2));
+      expect(await extended.run(1)).toEqual(ok(20));
+    });
+
+    it('入力とエラーの型を指定でき、エラー型の既定値はDoと同じstringになる', async () => {
+      const parse = pipeline<string>().chain(text =>
+        Number.isNaN(Number(text)) ? err(`invalid: ${text}`) : ok(Number(text))
+      );
+
+      expectTypeOf(parse).toEqualTypeOf<Pipeline<string, number, string | AbortedError>>();
+      expect(await parse.run('12')).toEqual(ok(12));
+      expect(await parse.run('x')).toEqual(err('invalid: x'));
+    });
+  });
+
+  describe('ステップ', () => {
+    it('bind/letでスコープに名前付きで束縛できる', async () => {
+      const profile = pipeline<{ id: number }>()
+        .bind('user', scope => fetchUser(scope.id))
+        .let('greeting', scope => `Hello, ${scope.user.name}`)
+        .map(scope => scope.greeting);
+
+      expect(await profile.run({ id: 1 })).toEqual(ok('Hello, Alice'));
+      expect(await profile.run({ id: 9 })).toEqual(err('NOT_FOUND'));
+    });
+
+    it('失敗側のステップで復旧できる', async () => {
+      const nameOrGuest = pipeline<number>()
+        .chainAsync(fetchUser)
+        .map(user => user.name)
+        .tapErr(error => expect(error).toBe('NOT_FOUND'))
+        .recover(() => 'Guest');
+
+      expect(await nameOrGuest.run(2)).toEqual(ok('Bob'));
+      expect(await nameOrGuest.run(9)).toEqual(ok('Guest'));
+    });
+
+    it('pipeでResultChainの任意の操作を追加できる', async () => {
+      const checked = pipeline<number[]>().pipe(chain =>
+        chain.traverse(async n => (n > 0 ? ok(n) : err(`not positive: ${n}`)))
+      );
+
+      expect(await checked.run([1, 2])).toEqual(ok([1, 2]));
+      expect(await checked.run([1, -2])).toEqual(err('not positive: -2'));
+    });
+  });
+
+  describe('パイプラインの組み合わせ', () => {
+    it('throughで別のパイプラインに成功値を渡せる', async () => {
+      const loadUser = pipeline<number, never>().chainAsync(fetchUser);
+      const describeUser = pipeline<User, never>()
+        .ensure(user => user.age >= 18, 'UNDERAGE' as const)
+        .chain(user => ok(`${user.name} (${user.age})`));
+
+      const loadAndDescribe = loadUser.through(describeUser).compile();
+
+      const adult = await loadAndDescribe(1);
+      const minor = await loadAndDescribe(2);
+
+      expect(isOk(adult)).toBe(true);
+      if (isOk(adult)) {
+        expect(adult.data).toBe('Alice (30)');
+      }
+      expect(isErr(minor)).toBe(true);
+      if (isErr(minor)) {
+        expect(minor.error).toBe('UNDERAGE');
+      }
+      expectTypeOf(adult).toEqualTypeOf<Result<string, 'NOT_FOUND' | 'UNDERAGE' | AbortedError>>();
+    });
+
+    it('compileした関数をchainAsyncのステップとして使える', async () => {
+      const double = pipeline<number>().map(n => n * 2).compile();
+      const quadruple = pipeline<number>().chainAsync(double).chainAsync(double);
+
+      expect(await quadruple.run(3)).toEqual(ok(12));
+    });
+  });
+
+  describe('中断', () => {
+    it('runにシグナルを渡すとステップのコールバックに渡される', async () => {
+      const controller = new AbortController();
+      const signals: unknown[] = [];
+      const load = pipeline<number>().chainAsync(async (id, signal) => {
+        signals.push(signal);
+        return ok(id);
+      });
+
+      expect(await load.run(1, { signal: controller.signal })).toEqual(ok(1));
+      expect(signals).toEqual([controller.signal]);
+    });
+
+    it('中断されると残りのステップを実行せずAbortedErrorで失敗する', async () => {
+      const controller = new AbortController();
+      const steps: string[] = [];
+      const load = pipeline<number>()
+        .tap(() => {
+          steps.push('first');
+          controller.abort('cancelled');
+        })
+        .map(n => {
+          steps.push('second');
+          return n;
+        });
+
+      const result = await load.run(1, { signal: controller.signal });
+
+      expect(steps).toEqual(['first']);
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBeInstanceOf(AbortedError);
+      }
+    });
+
+    it('mapErrの後もシグナルが引き継がれ、中断のエラーも変換される', async () => {
+      const controller = new AbortController();
+      const load = pipeline<number>()
+        .mapErr(error => (error instanceof AbortedError ? 'ABORTED' : 'FAILED'))
+        .chainAsync(async (n, signal) => {
+          controller.abort();
+          return signal ? ok(n) : err('FAILED' as const);
+        })
+        .map(n => n * 2);
+
+      expect(await load.run(1, { signal: controller.signal })).toEqual(err('ABORTED'));
+    });
+
+    it('compileした関数とthroughにもシグナルが渡される', async () => {
+      const controller = new AbortController();
+      const signals: unknown[] = [];
+      const record = pipeline<number>().tapAsync((_n, signal) => signals.push(signal));
+      const compiled = record.compile();
+      const combined = pipeline<number>().through(record).chainAsync(compiled);
+
+      await combined.run(1, { signal: controller.signal });
+
+      expect(signals).toEqual([controller.signal, controller.signal]);
+    });
+  });
+});
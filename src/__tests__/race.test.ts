@@ -0,0 +1,137 @@
+/**
+ * @fileoverview 最初の成功を採用するコンビネータのテスト
+ *
+ * このファイルでは、firstOk/raceOk 関数の動作をテストします。
+ * プライマリDB・レプリカ・キャッシュのようなフォールバックの使用例も含まれています。
+ * 待機時間はフェイクタイマーで進めて検証しています。
+ */
+
+import { describe, it, expect, expectTypeOf, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ok,
+  err,
+  isOk,
+  isErr,
+  firstOk,
+  raceOk,
+  AllFailedError,
+  type Result,
+  type AbortSignalLike
+} from '../index.js';
+
+// 指定時間後に結果を返す非同期処理をシミュレート（中断されたかを記録する）
+const source = (ms: number, result: Result<string, string>, aborted: string[] = [], name = '') =>
+  (signal: AbortSignalLike): Promise<Result<string, string>> =>
+    new Promise(resolve => {
+      signal.addEventListener('abort', () => aborted.push(name), { once: true });
+      setTimeout(() => resolve(result), ms);
+    });
+
+describe('firstOk関数 - 最初の成功を採用する', () => {
+  it('最初の成功の値を返す', () => {
+    const result = firstOk([err('primary down'), ok('replica'), ok('cache')]);
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.data).toBe('replica');
+    }
+    expectTypeOf(result).toEqualTypeOf<Result<string, AllFailedError<string>>>();
+  });
+
+  it('すべて失敗した場合はすべてのエラーを集める', () => {
+    const result = firstOk([err('primary down'), err('replica down')]);
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toBeInstanceOf(AllFailedError);
+      expect(result.error.errors).toEqual(['primary down', 'replica down']);
+      expect(result.error.message).toBe('All 2 sources failed');
+    }
+  });
+
+  it('ジェネレータを渡すと必要なフォールバックだけを評価する', () => {
+    const evaluated: string[] = [];
+    function* lookups(): Generator<Result<string, string>> {
+      evaluated.push('primary');
+      yield ok('primary');
+      evaluated.push('replica');
+      yield ok('replica');
+    }
+
+    firstOk(lookups());
+
+    expect(evaluated).toEqual(['primary']);
+  });
+
+  it('空の入力はエラーのないAllFailedErrorで失敗する', () => {
+    const result = firstOk([]);
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.errors).toEqual([]);
+    }
+  });
+});
+
+describe('raceOk関数 - 並列に実行して最初の成功を採用する', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('最初に到着した成功で解決し、残りを中断する', async () => {
+    const aborted: string[] = [];
+    const promise = raceOk([
+      source(100, ok('primary'), aborted, 'primary'),
+      source(10, err('replica down'), aborted, 'replica'),
+      source(50, ok('cache'), aborted, 'cache')
+    ]);
+    await vi.advanceTimersByTimeAsync(50);
+    const result = await promise;
+
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.data).toBe('cache');
+    }
+    expect(aborted).toEqual(['primary', 'replica', 'cache']);
+    expectTypeOf(result).toEqualTypeOf<Result<string, AllFailedError<string>>>();
+  });
+
+  it('すべて失敗した場合は入力順のエラーを集める', async () => {
+    const promise = raceOk([
+      source(30, err('primary down')),
+      source(10, err('replica down'))
+    ]);
+    await vi.runAllTimersAsync();
+    const result = await promise;
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toBeInstanceOf(AllFailedError);
+      expect(result.error.errors).toEqual(['primary down', 'replica down']);
+    }
+  });
+
+  it('処理が拒否された場合は拒否される', async () => {
+    const promise = raceOk([
+      source(100, ok('primary')),
+      async () => {
+        throw new Error('unexpected');
+      }
+    ]);
+
+    await expect(promise).rejects.toThrow('unexpected');
+  });
+
+  it('空の入力はエラーのないAllFailedErrorで失敗する', async () => {
+    const result = await raceOk([]);
+
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error.errors).toEqual([]);
+    }
+  });
+});
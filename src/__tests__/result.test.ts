@@ -5,8 +5,8 @@
  * Railway Oriented Programmingの基本的なパターンの使用例も含まれています。
  */
 
-import { describe, it, expect } from 'vitest';
-import { ok, err, isOk, isErr, type Result } from '../index.js';
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import { ok, err, isOk, isErr, UnwrapError, type Result } from '../index.js';
 
 describe('Result基本機能', () => {
   describe('ok関数 - 成功結果の作成', () => {
@@ -63,10 +63,10 @@ describe('Result基本機能', () => {
     });
   });
 
-  describe('map関数 - 値の変換', () => {
-    it('成功結果の値を変換できる', async () => {
+  describe('map関数 - 同期的な値の変換', () => {
+    it('成功結果の値を変換できる', () => {
       const result = ok(10);
-      const mapped = await result.map(x => x * 2);
+      const mapped = result.map(x => x * 2);
       
       expect(isOk(mapped)).toBe(true);
       if (isOk(mapped)) {
@@ -74,9 +74,9 @@ describe('Result基本機能', () => {
       }
     });
 
-    it('失敗結果はmapで変換されない', async () => {
+    it('失敗結果はmapで変換されない', () => {
       const result = err('error');
-      const mapped = await result.map(x => x * 2);
+      const mapped = result.map(x => x * 2);
       
       expect(isErr(mapped)).toBe(true);
       if (isErr(mapped)) {
@@ -84,24 +84,79 @@ describe('Result基本機能', () => {
       }
     });
 
-    it('map関数内でエラーが発生した場合は失敗結果になる', async () => {
+    it('Promiseを介さずに即座にResultを返す', () => {
+      const mapped = ok(10).map(x => x + 1);
+      
+      expect(mapped).not.toBeInstanceOf(Promise);
+      expect(mapped.success).toBe(true);
+    });
+
+    it('map関数内で発生した例外はそのまま送出される', () => {
       const result = ok(10);
-      const mapped = await result.map(() => {
+      
+      expect(() => result.map(() => {
         throw new Error('map error');
+      })).toThrow('map error');
+    });
+  });
+
+  describe('flatMap/andThen関数 - Result型を返す関数の同期チェーン', () => {
+    const half = (n: number): Result<number, string> =>
+      n % 2 === 0 ? ok(n / 2) : err('奇数です');
+
+    it('Result型を返す関数で変換できる', () => {
+      const chained = ok(20).flatMap(half);
+      
+      expect(isOk(chained)).toBe(true);
+      if (isOk(chained)) {
+        expect(chained.data).toBe(10);
+      }
+    });
+
+    it('関数が失敗を返した場合は失敗結果になる', () => {
+      const chained = ok(5).flatMap(half);
+      
+      expect(isErr(chained)).toBe(true);
+      if (isErr(chained)) {
+        expect(chained.error).toBe('奇数です');
+      }
+    });
+
+    it('失敗結果では関数が実行されない', () => {
+      let called = false;
+      const chained = err('error').flatMap(() => {
+        called = true;
+        return ok(1);
       });
       
-      expect(isErr(mapped)).toBe(true);
-      if (isErr(mapped)) {
-        expect(mapped.error).toBeInstanceOf(Error);
-        expect((mapped.error as Error).message).toBe('map error');
+      expect(called).toBe(false);
+      expect(isErr(chained)).toBe(true);
+    });
+
+    it('andThenはflatMapの別名として動作する', () => {
+      const chained = ok(40).andThen(half).andThen(half).andThen(half);
+      
+      expect(isOk(chained)).toBe(true);
+      if (isOk(chained)) {
+        expect(chained.data).toBe(5);
       }
     });
   });
 
-  describe('Promise対応のmap関数', () => {
+  describe('mapAsync関数 - Promise対応の変換', () => {
+    it('同期関数でも変換できる', async () => {
+      const result = ok(7);
+      const mapped = await result.mapAsync(x => x * 4);
+      
+      expect(isOk(mapped)).toBe(true);
+      if (isOk(mapped)) {
+        expect(mapped.data).toBe(28);
+      }
+    });
+
     it('非同期関数でmapできる', async () => {
       const result = ok(5);
-      const mapped = await result.map(async x => {
+      const mapped = await result.mapAsync(async x => {
         await new Promise(resolve => setTimeout(resolve, 10));
         return x * 3;
       });
@@ -114,7 +169,7 @@ describe('Result基本機能', () => {
 
     it('非同期関数でResult型を返すmapができる', async () => {
       const result = ok(5);
-      const mapped = await result.map(async x => {
+      const mapped = await result.mapAsync(async x => {
         await new Promise(resolve => setTimeout(resolve, 10));
         return x > 0 ? ok(x * 2) : err('negative number');
       });
@@ -125,9 +180,50 @@ describe('Result基本機能', () => {
       }
     });
 
+    it('失敗結果はmapAsyncで変換されない', async () => {
+      const result = err('error');
+      const mapped = await result.mapAsync(async x => x * 2);
+      
+      expect(isErr(mapped)).toBe(true);
+      if (isErr(mapped)) {
+        expect(mapped.error).toBe('error');
+      }
+    });
+
+    it('関数内でエラーが発生した場合は失敗結果になる', async () => {
+      const result = ok(10);
+      const mapped = await result.mapAsync(() => {
+        throw new Error('map error');
+      });
+      
+      expect(isErr(mapped)).toBe(true);
+      if (isErr(mapped)) {
+        expect(mapped.error).toBeInstanceOf(Error);
+        expect((mapped.error as Error).message).toBe('map error');
+      }
+    });
+
+    it('例外はmapErrorで指定した型のエラーに変換される', async () => {
+      class ConversionError {
+        constructor(readonly cause: unknown) {}
+      }
+
+      const mapped = await ok('{').mapAsync(
+        json => JSON.parse(json) as unknown,
+        error => new ConversionError(error)
+      );
+      
+      expect(isErr(mapped)).toBe(true);
+      if (isErr(mapped)) {
+        expectTypeOf(mapped.error).toEqualTypeOf<ConversionError>();
+        expect(mapped.error).toBeInstanceOf(ConversionError);
+        expect(mapped.error.cause).toBeInstanceOf(SyntaxError);
+      }
+    });
+
     it('非同期関数内でエラーが発生した場合は失敗結果になる', async () => {
       const result = ok(5);
-      const mapped = await result.map(async () => {
+      const mapped = await result.mapAsync(async () => {
         await new Promise(resolve => setTimeout(resolve, 10));
         throw new Error('async error');
       });
@@ -140,16 +236,346 @@ describe('Result基本機能', () => {
     });
   });
 
-  describe('mapAsync関数 - 非同期変換の別名', () => {
-    it('mapAsyncはmapの別名として動作する', async () => {
-      const result = ok(7);
-      const mapped = await result.mapAsync(async x => x * 4);
+  describe('mapErr関数 - エラーの変換', () => {
+    type DomainError = { code: 'NOT_FOUND' | 'UNKNOWN'; message: string };
+
+    const toDomainError = (error: Error): DomainError => ({
+      code: error.message.includes('not found') ? 'NOT_FOUND' : 'UNKNOWN',
+      message: error.message
+    });
+
+    it('失敗結果のエラーを変換できる', () => {
+      const result: Result<number, Error> = err(new Error('user not found'));
+      const mapped = result.mapErr(toDomainError);
       
+      expect(isErr(mapped)).toBe(true);
+      if (isErr(mapped)) {
+        expect(mapped.error).toEqual({ code: 'NOT_FOUND', message: 'user not found' });
+      }
+    });
+
+    it('成功結果はmapErrで変更されない', () => {
+      let called = false;
+      const result: Result<number, Error> = ok(1);
+      const mapped = result.mapErr(error => {
+        called = true;
+        return toDomainError(error);
+      });
+      
+      expect(called).toBe(false);
       expect(isOk(mapped)).toBe(true);
       if (isOk(mapped)) {
-        expect(mapped.data).toBe(28);
+        expect(mapped.data).toBe(1);
+      }
+    });
+
+    it('mapErrorはmapErrの別名として動作する', () => {
+      const mapped = err('low level').mapError(message => `wrapped: ${message}`);
+      
+      expect(isErr(mapped)).toBe(true);
+      if (isErr(mapped)) {
+        expect(mapped.error).toBe('wrapped: low level');
+      }
+    });
+
+    it('mapErrAsyncで非同期にエラーを変換できる', async () => {
+      const mapped = await err(404).mapErrAsync(async status => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return `HTTP ${status}`;
+      });
+      
+      expect(isErr(mapped)).toBe(true);
+      if (isErr(mapped)) {
+        expect(mapped.error).toBe('HTTP 404');
+      }
+    });
+
+    it('成功結果はmapErrAsyncで変更されない', async () => {
+      const mapped = await ok('value').mapErrAsync(async () => 'never');
+      
+      expect(isOk(mapped)).toBe(true);
+      if (isOk(mapped)) {
+        expect(mapped.data).toBe('value');
+      }
+    });
+  });
+
+  describe('orElse/recover関数 - 失敗からの復旧', () => {
+    const cache = new Map<string, string>([['a', 'cached-a']]);
+    const readCache = (key: string): Result<string, 'CACHE_MISS'> =>
+      cache.has(key) ? ok(cache.get(key)!) : err('CACHE_MISS');
+    const readDb = (key: string): Result<string, 'DB_ERROR'> =>
+      key === 'broken' ? err('DB_ERROR') : ok(`db-${key}`);
+
+    it('orElseで失敗時に別のResultへフォールバックできる', () => {
+      const result = readCache('b').orElse(() => readDb('b'));
+      
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe('db-b');
+      }
+    });
+
+    it('orElseのフォールバックが失敗した場合はそのエラーになる', () => {
+      const result = readCache('broken').orElse(() => readDb('broken'));
+      
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBe('DB_ERROR');
       }
     });
+
+    it('成功結果ではorElseの関数が実行されない', () => {
+      let called = false;
+      const result = readCache('a').orElse(() => {
+        called = true;
+        return readDb('a');
+      });
+      
+      expect(called).toBe(false);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe('cached-a');
+      }
+    });
+
+    it('recoverWithはorElseの別名として動作する', () => {
+      const result = err('first').recoverWith(() => ok('second'));
+      
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe('second');
+      }
+    });
+
+    it('recoverで失敗を成功値に置き換えられる', () => {
+      const parseConfig = (json: string): Result<{ debug: boolean }, string> => {
+        try {
+          return ok(JSON.parse(json));
+        } catch {
+          return err('invalid json');
+        }
+      };
+      
+      const result = parseConfig('{').recover(() => ({ debug: false }));
+      
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toEqual({ debug: false });
+      }
+    });
+
+    it('orElseAsync/recoverAsyncで非同期に復旧できる', async () => {
+      const fetched = await readCache('c').orElseAsync(async key => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return key === 'CACHE_MISS' ? ok('fetched') : err('unexpected');
+      });
+      const recovered = await err('offline').recoverAsync(async () => 'default');
+      
+      expect(isOk(fetched)).toBe(true);
+      if (isOk(fetched)) {
+        expect(fetched.data).toBe('fetched');
+      }
+      expect(isOk(recovered)).toBe(true);
+      if (isOk(recovered)) {
+        expect(recovered.data).toBe('default');
+      }
+    });
+
+    it('orElseの結果はフォールバックのエラー型のみを持つ', () => {
+      const result = readCache('b').orElse(() => readDb('b'));
+      
+      expectTypeOf(result).toMatchTypeOf<Result<string, 'DB_ERROR'>>();
+      if (isErr(result)) {
+        expectTypeOf(result.error).toEqualTypeOf<'DB_ERROR'>();
+      }
+    });
+  });
+
+  describe('unwrap系関数 - 値の取り出し', () => {
+    const toResult = (value: number): Result<number, string> =>
+      value >= 0 ? ok(value) : err('failed');
+    const success = toResult(42);
+    const failure = toResult(-1);
+
+    it('unwrapは成功値を返す', () => {
+      expect(success.unwrap()).toBe(42);
+    });
+
+    it('unwrapは失敗時に元のエラーを持つUnwrapErrorを投げる', () => {
+      try {
+        failure.unwrap();
+        throw new Error('unreachable');
+      } catch (error) {
+        expect(error).toBeInstanceOf(UnwrapError);
+        expect((error as UnwrapError<string>).error).toBe('failed');
+      }
+    });
+
+    it('unwrapOrは失敗時にデフォルト値を返す', () => {
+      expect(success.unwrapOr(0)).toBe(42);
+      expect(failure.unwrapOr(0)).toBe(0);
+    });
+
+    it('unwrapOrElseは失敗時にエラーから値を計算する', () => {
+      expect(success.unwrapOrElse(error => error.length)).toBe(42);
+      expect(failure.unwrapOrElse(error => error.length)).toBe(6);
+    });
+
+    it('expectは失敗時に指定したメッセージでUnwrapErrorを投げる', () => {
+      expect(success.expect('設定が必要です')).toBe(42);
+      expect(() => failure.expect('設定が必要です')).toThrow(UnwrapError);
+      expect(() => failure.expect('設定が必要です')).toThrow('設定が必要です');
+    });
+
+    it('unwrapErrは失敗時のエラーを返し、成功時はUnwrapErrorを投げる', () => {
+      expect(failure.unwrapErr()).toBe('failed');
+      expect(() => success.unwrapErr()).toThrow(UnwrapError);
+    });
+
+    it('unwrapOrの戻り値は成功値とデフォルト値のユニオンになる', () => {
+      const value = success.unwrapOr(null);
+
+      expectTypeOf(value).toEqualTypeOf<number | null>();
+    });
+  });
+
+  describe('tap/tapErr/tapAsync関数 - 副作用の実行', () => {
+    it('tapは成功値で副作用を実行し、同じ結果を返す', () => {
+      const logs: number[] = [];
+      const result = ok(42);
+      const tapped = result.tap(value => logs.push(value));
+      
+      expect(logs).toEqual([42]);
+      expect(tapped).toBe(result);
+    });
+
+    it('tapは失敗時に副作用を実行しない', () => {
+      const logs: unknown[] = [];
+      const result = err('boom');
+      
+      expect(result.tap(value => logs.push(value))).toBe(result);
+      expect(logs).toEqual([]);
+    });
+
+    it('tapErrは失敗時のみ副作用を実行する', () => {
+      const logs: string[] = [];
+      const failure = err('boom');
+      
+      expect(failure.tapErr(error => logs.push(error))).toBe(failure);
+      ok(1).tapErr(error => logs.push(String(error)));
+      expect(logs).toEqual(['boom']);
+    });
+
+    it('tapAsyncは副作用の完了を待ってから同じ結果を返す', async () => {
+      const logs: string[] = [];
+      const result = ok('value');
+      const tapped = await result.tapAsync(async value => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        logs.push(value);
+      });
+      
+      expect(logs).toEqual(['value']);
+      expect(tapped).toBe(result);
+    });
+
+    it('副作用の例外は捕捉されずに伝播する', async () => {
+      expect(() =>
+        ok(1).tap(() => {
+          throw new Error('log failed');
+        })
+      ).toThrow('log failed');
+      await expect(
+        ok(1).tapAsync(async () => {
+          throw new Error('log failed');
+        })
+      ).rejects.toThrow('log failed');
+    });
+
+    it('Result型のユニオンでも型が変わらない', () => {
+      const parse = (input: string): Result<number, 'NaN'> =>
+        Number.isNaN(Number(input)) ? err('NaN') : ok(Number(input));
+      const tapped = parse('1').tap(() => undefined).tapErr(() => undefined);
+      
+      expectTypeOf(tapped).toEqualTypeOf<Result<number, 'NaN'>>();
+    });
+  });
+
+  describe('エラー型の保持', () => {
+    type ParseError = { kind: 'parse' };
+    type RangeError = { kind: 'range' };
+    type LimitError = { kind: 'limit' };
+
+    const parse = (s: string): Result<number, ParseError> =>
+      isNaN(Number(s)) ? err({ kind: 'parse' }) : ok(Number(s));
+    const inRange = (n: number): Result<number, RangeError> =>
+      n >= 0 ? ok(n) : err({ kind: 'range' });
+    const underLimit = (n: number): Result<number, LimitError> =>
+      n < 100 ? ok(n) : err({ kind: 'limit' });
+
+    it('mapはエラー型を変えずに保持する', () => {
+      const mapped = parse('42').map(n => n.toString());
+
+      expectTypeOf(mapped).toEqualTypeOf<Result<string, ParseError>>();
+      if (isErr(mapped)) {
+        expectTypeOf(mapped.error).toEqualTypeOf<ParseError>();
+      }
+    });
+
+    it('チェーンを重ねてもすべてのエラー型が合成される', () => {
+      const chained = parse('42')
+        .andThen(inRange)
+        .map(n => n * 2)
+        .andThen(underLimit);
+
+      expectTypeOf(chained).toMatchTypeOf<Result<number, ParseError | RangeError | LimitError>>();
+      if (isErr(chained)) {
+        expectTypeOf(chained.error).toEqualTypeOf<ParseError | RangeError | LimitError>();
+      }
+      expect(isOk(chained)).toBe(true);
+    });
+
+    it('matchはハンドラの戻り値のユニオンを返す', () => {
+      const value = parse('42').match({
+        ok: n => n,
+        err: e => e.kind
+      });
+
+      expectTypeOf(value).toEqualTypeOf<number | 'parse'>();
+      expect(value).toBe(42);
+    });
+
+    it('mapErrはエラー型を置き換える', () => {
+      const mapped = parse('x').mapErr(e => `${e.kind} error`);
+
+      expectTypeOf(mapped).toEqualTypeOf<Result<number, string>>();
+    });
+
+    it('mapAsyncでもResult型を返す関数のエラー型が合成される', async () => {
+      const mapped = await parse('42').mapAsync(async n => inRange(n), () => ({ kind: 'range' as const }));
+
+      expectTypeOf(mapped).toMatchTypeOf<Result<number, ParseError | RangeError>>();
+      if (isErr(mapped)) {
+        expectTypeOf(mapped.error).toEqualTypeOf<ParseError | RangeError>();
+      }
+      expect(isOk(mapped)).toBe(true);
+    });
+
+    it('mapErrorを省略したmapAsyncでは、例外を表すunknownがエラー型に加わる', async () => {
+      const mapped = await parse('42').mapAsync(async n => inRange(n));
+
+      if (isErr(mapped)) {
+        expectTypeOf(mapped.error).toEqualTypeOf<unknown>();
+      }
+      expect(isOk(mapped)).toBe(true);
+    });
+
+    it('mapErrorを渡さずにエラー型だけを指定することはできない', async () => {
+      // @ts-expect-error エラー型を指定する場合はそれを作るmapErrorが必要
+      const mapped = await ok('{').mapAsync<unknown, RangeError>(json => JSON.parse(json));
+
+      expect(isErr(mapped)).toBe(true);
+    });
   });
 });
 
@@ -235,26 +661,26 @@ describe('Railway Oriented Programming パターンの例', () => {
     }
   });
 
-  it('map関数を使った変換チェーン', async () => {
-    const processNumber = async (input: string): Promise<Result<number, string>> => {
-      return await ok(input)
+  it('map/andThen関数を使った変換チェーン', () => {
+    const processNumber = (input: string): Result<number, string> => {
+      return ok(input)
         .map(s => s.trim())
-        .then(r => r.map(s => s.length > 0 ? ok(s) : err('空の文字列です')))
-        .then(r => r.map(s => {
+        .andThen(s => s.length > 0 ? ok(s) : err('空の文字列です'))
+        .andThen(s => {
           const num = parseInt(s);
           return isNaN(num) ? err('数値ではありません') : ok(num);
-        }))
-        .then(r => r.map(n => n > 0 ? ok(n) : err('正の数である必要があります')))
-        .then(r => r.map(n => n * 2)); // 最終的に2倍にする
+        })
+        .andThen(n => n > 0 ? ok(n) : err('正の数である必要があります'))
+        .map(n => n * 2); // 最終的に2倍にする
     };
 
-    const validResult = await processNumber('  42  ');
+    const validResult = processNumber('  42  ');
     expect(isOk(validResult)).toBe(true);
     if (isOk(validResult)) {
       expect(validResult.data).toBe(84);
     }
 
-    const invalidResult = await processNumber('abc');
+    const invalidResult = processNumber('abc');
     expect(isErr(invalidResult)).toBe(true);
     if (isErr(invalidResult)) {
       expect(invalidResult.error).toBe('数値ではありません');
@@ -0,0 +1,208 @@
+/**
+ * @fileoverview 再試行のテスト
+ * 
+ * このファイルでは、retry 関数と ResultChain.retry の動作をテストします。
+ * 待機時間はフェイクタイマーで進めて検証しています。
+ */
+
+import { describe, it, expect, expectTypeOf, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ok,
+  err,
+  isOk,
+  isErr,
+  retry,
+  Do,
+  RetryExhaustedError,
+  AbortedError,
+  type Result,
+  type AbortSignalLike
+} from '../index.js';
+
+type ApiError = { status: number };
+
+// 指定した回数だけ失敗してから成功するAPI呼び出しをシミュレート
+const flakyCall = (failures: number, status = 503) => {
+  const calls: number[] = [];
+  const fn = async (attempt: number): Promise<Result<string, ApiError>> => {
+    calls.push(attempt);
+    return calls.length > failures ? ok('response') : err({ status });
+  };
+  return { fn, calls };
+};
+
+describe('retry関数 - 失敗した非同期処理の再試行', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('成功するまで再試行する', async () => {
+    const { fn, calls } = flakyCall(2);
+    
+    const promise = retry(fn, { attempts: 5, delay: 100 });
+    await vi.advanceTimersByTimeAsync(100 + 200);
+    const result = await promise;
+    
+    expect(calls).toEqual([1, 2, 3]);
+    expect(result).toEqual(ok('response'));
+  });
+
+  it('試行回数を使い切るとすべてのエラーを持つRetryExhaustedErrorを返す', async () => {
+    const { fn, calls } = flakyCall(Infinity);
+    
+    const promise = retry(fn, { attempts: 3, delay: 10 });
+    await vi.runAllTimersAsync();
+    const result = await promise;
+    
+    expectTypeOf(result).toEqualTypeOf<Result<string, ApiError | RetryExhaustedError<ApiError> | AbortedError>>();
+    expect(calls).toHaveLength(3);
+    expect(isErr(result)).toBe(true);
+    if (isErr(result) && result.error instanceof RetryExhaustedError) {
+      expect(result.error.errors).toEqual([{ status: 503 }, { status: 503 }, { status: 503 }]);
+      expect(result.error.lastError).toEqual({ status: 503 });
+    } else {
+      expect.unreachable();
+    }
+  });
+
+  it('exponentialでは待機時間が倍々に増える', async () => {
+    const { fn, calls } = flakyCall(Infinity);
+    
+    const promise = retry(fn, { attempts: 4, backoff: 'exponential', delay: 100 });
+    await vi.advanceTimersByTimeAsync(99);
+    expect(calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(calls).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(calls).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(calls).toHaveLength(3);
+    await vi.advanceTimersByTimeAsync(400);
+    expect(calls).toHaveLength(4);
+    await promise;
+  });
+
+  it('linearでは待機時間が一定の幅で増え、maxDelayで上限を設けられる', async () => {
+    const { fn, calls } = flakyCall(Infinity);
+    
+    const promise = retry(fn, { attempts: 4, backoff: 'linear', delay: 100, maxDelay: 150 });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(calls).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(150);
+    expect(calls).toHaveLength(3);
+    await vi.advanceTimersByTimeAsync(150);
+    expect(calls).toHaveLength(4);
+    await promise;
+  });
+
+  it('独自のbackoff関数で待機時間を決められる', async () => {
+    const { fn } = flakyCall(2);
+    const backoff = vi.fn((attempt: number) => attempt * 1000);
+    
+    const promise = retry(fn, { attempts: 3, backoff });
+    await vi.runAllTimersAsync();
+    
+    expect(await promise).toEqual(ok('response'));
+    expect(backoff.mock.calls).toEqual([[1], [2]]);
+  });
+
+  it('jitterを有効にすると待機時間がランダムに短縮される', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const { fn, calls } = flakyCall(1);
+    
+    const promise = retry(fn, { attempts: 2, delay: 100, jitter: true });
+    await vi.advanceTimersByTimeAsync(50);
+    
+    expect(calls).toHaveLength(2);
+    expect(await promise).toEqual(ok('response'));
+    vi.restoreAllMocks();
+  });
+
+  it('shouldRetryがfalseを返したエラーはそのまま返す', async () => {
+    const { fn, calls } = flakyCall(Infinity, 404);
+    const shouldRetry = vi.fn((error: ApiError) => error.status >= 500);
+    
+    const result = await retry(fn, { attempts: 5, shouldRetry });
+    
+    expect(calls).toHaveLength(1);
+    expect(shouldRetry).toHaveBeenCalledWith({ status: 404 }, 1);
+    expect(result).toEqual(err({ status: 404 }));
+  });
+
+  it('signalが中断されると再試行をやめてAbortedErrorで失敗する', async () => {
+    const controller = new AbortController();
+    const { fn, calls } = flakyCall(Infinity);
+    
+    const promise = retry(fn, { attempts: 5, delay: 1000, signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort('cancelled');
+    const result = await promise;
+    
+    expect(calls).toHaveLength(1);
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toBeInstanceOf(AbortedError);
+      expect((result.error as AbortedError).reason).toBe('cancelled');
+    }
+  });
+
+  it('中断済みのsignalでは一度も試行しない', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const { fn, calls } = flakyCall(0);
+    
+    const result = await retry(fn, { attempts: 3, signal: controller.signal });
+    
+    expect(calls).toEqual([]);
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toBeInstanceOf(AbortedError);
+    }
+  });
+
+  it('各試行にsignalを渡す', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn(async (_attempt: number, _signal?: AbortSignalLike) => ok('response'));
+    
+    await retry(fn, { attempts: 3, signal: controller.signal });
+    
+    expect(fn).toHaveBeenCalledWith(1, controller.signal);
+  });
+
+  it('attemptsが1以上の整数でない場合はRangeErrorで拒否する', async () => {
+    const { fn, calls } = flakyCall(0);
+    
+    for (const attempts of [0, -1, 1.5, NaN]) {
+      await expect(retry(fn, { attempts })).rejects.toThrow(RangeError);
+    }
+    expect(calls).toEqual([]);
+  });
+
+  it('負のdelayやmaxDelayを渡すとRangeErrorで拒否する', async () => {
+    const { fn, calls } = flakyCall(0);
+    
+    await expect(retry(fn, { attempts: 3, delay: -1 })).rejects.toThrow(RangeError);
+    await expect(retry(fn, { attempts: 3, maxDelay: -100 })).rejects.toThrow(RangeError);
+    expect(calls).toEqual([]);
+  });
+
+  it('ResultChain.retryでチェーンの途中で再試行できる', async () => {
+    const { fn, calls } = flakyCall(1);
+    
+    const promise = Do<number, never>(1)
+      .retry((id, attempt) => fn(attempt).then(r => r.map(body => `${id}: ${body}`)), { attempts: 3 })
+      .run();
+    await vi.runAllTimersAsync();
+    const result = await promise;
+    
+    expect(calls).toEqual([1, 2]);
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.data).toBe('1: response');
+    }
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview Standard Schema統合ヘルパーのテスト
+ * 
+ * このファイルでは、schemaToResult/schemaToResultAsync 関数の動作をテストします。
+ * 
+ * 注意: このテストではValibotやArkTypeの実際のインストールは不要で、
+ * Standard Schemaのインターフェースを実装したバリデータをシミュレートしてテストしています。
+ */
+
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  schemaToResult,
+  schemaToResultAsync,
+  isOk,
+  isErr,
+  AsyncResult,
+  type Result,
+  type StandardSchema,
+  type StandardSchemaIssue,
+  type SyncStandardSchema
+} from '../index.js';
+
+// Standard Schemaを実装したバリデータをシミュレート
+const createSchema = <T>(
+  vendor: string,
+  check: (value: unknown) => value is T,
+  issue: StandardSchemaIssue
+): SyncStandardSchema<unknown, T> => ({
+  '~standard': {
+    version: 1,
+    vendor,
+    validate: value => (check(value) ? { value } : { issues: [issue] })
+  }
+});
+
+const createAsyncSchema = <T>(
+  check: (value: unknown) => Promise<boolean>,
+  issue: StandardSchemaIssue
+): StandardSchema<unknown, T> => ({
+  '~standard': {
+    version: 1,
+    vendor: 'async-validator',
+    validate: async value => ((await check(value)) ? { value: value as T } : { issues: [issue] })
+  }
+});
+
+const emailSchema = createSchema(
+  'valibot',
+  (value): value is string => typeof value === 'string' && value.includes('@'),
+  { message: 'Invalid email', path: ['email'] }
+);
+
+const ageSchema = createSchema(
+  'arktype',
+  (value): value is number => typeof value === 'number' && value >= 0,
+  { message: 'Must be a non-negative number', path: [{ key: 'age' }] }
+);
+
+describe('Standard Schema統合ヘルパー', () => {
+  describe('schemaToResult関数 - 同期的な検証', () => {
+    it('検証に成功した場合はスキーマの出力型で成功結果を返す', () => {
+      const result = schemaToResult(emailSchema, 'alice@example.com');
+      
+      expectTypeOf(result).toEqualTypeOf<Result<string, StandardSchemaIssue[]>>();
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe('alice@example.com');
+      }
+    });
+
+    it('検証に失敗した場合はissueの配列を返す', () => {
+      const result = schemaToResult(ageSchema, -1);
+      
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual([
+          { message: 'Must be a non-negative number', path: [{ key: 'age' }] }
+        ]);
+      }
+    });
+
+    it('ベンダーが異なるバリデータでも同じパイプラインで扱える', () => {
+      const results = [schemaToResult(emailSchema, 'bob@example.com'), schemaToResult(ageSchema, 20)];
+      
+      expect(results.every(isOk)).toBe(true);
+    });
+
+    it('非同期のバリデータを渡すとAsyncResultを返す', async () => {
+      const schema = createAsyncSchema<string>(async value => value !== '', { message: 'Required' });
+      const pending = schemaToResult(schema, 'value');
+      
+      expectTypeOf(pending).toEqualTypeOf<
+        Result<string, StandardSchemaIssue[]> | AsyncResult<string, StandardSchemaIssue[]>
+      >();
+      expect(pending).toBeInstanceOf(AsyncResult);
+      expect(isOk(await pending)).toBe(true);
+      expect(isErr(await schemaToResult(schema, ''))).toBe(true);
+    });
+
+    it('同期と宣言されていないバリデータでも同期的に検証できればResultを返す', () => {
+      const schema: StandardSchema<unknown, string> = emailSchema;
+      const result = schemaToResult(schema, 'alice@example.com');
+      
+      expect(result).not.toBeInstanceOf(AsyncResult);
+      expect(isOk(result as Result<string, StandardSchemaIssue[]>)).toBe(true);
+    });
+  });
+
+  describe('schemaToResultAsync関数 - 非同期の検証', () => {
+    const usernameSchema = createAsyncSchema<string>(
+      async value => {
+        await new Promise(resolve => setTimeout(resolve, 10));
+        return value !== 'taken';
+      },
+      { message: 'Username is taken', path: ['username'] }
+    );
+
+    it('非同期の検証結果をAsyncResultに変換する', async () => {
+      const pending = schemaToResultAsync(usernameSchema, 'alice');
+      expectTypeOf(pending).toEqualTypeOf<AsyncResult<string, StandardSchemaIssue[]>>();
+      
+      const available = await pending;
+      const taken = await schemaToResultAsync(usernameSchema, 'taken');
+      
+      expect(isOk(available)).toBe(true);
+      expect(isErr(taken)).toBe(true);
+      if (isErr(taken)) {
+        expect(taken.error[0].message).toBe('Username is taken');
+      }
+    });
+
+    it('同期のバリデータも扱える', async () => {
+      const result = await schemaToResultAsync(emailSchema, 'not-an-email');
+      
+      expect(isErr(result)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * @fileoverview タイムアウトと中断のテスト
+ * 
+ * このファイルでは、withTimeout 関数と、AbortSignalを渡したResultChainの動作をテストします。
+ * 待機時間はフェイクタイマーで進めて検証しています。
+ */
+
+import { describe, it, expect, expectTypeOf, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ok,
+  err,
+  isErr,
+  withTimeout,
+  Do,
+  ResultChain,
+  TimeoutError,
+  AbortedError,
+  type Result,
+  type AbortSignalLike
+} from '../index.js';
+
+// 指定時間後に結果を返す非同期処理をシミュレート
+const delayed = <T>(ms: number, value: T): Promise<Result<T, 'FAILED'>> =>
+  new Promise(resolve => setTimeout(() => resolve(ok(value)), ms));
+
+describe('withTimeout関数 - 処理時間の制限', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('時間内に完了した場合はその結果を返す', async () => {
+    const promise = withTimeout(delayed(100, 'done'), 200);
+    await vi.advanceTimersByTimeAsync(100);
+    
+    expect(await promise).toEqual(ok('done'));
+  });
+
+  it('時間内に完了しない場合はTimeoutErrorで失敗する', async () => {
+    const promise = withTimeout(delayed(300, 'late'), 200);
+    await vi.advanceTimersByTimeAsync(200);
+    const result = await promise;
+    
+    expectTypeOf(result).toEqualTypeOf<Result<string, 'FAILED' | TimeoutError>>();
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toBeInstanceOf(TimeoutError);
+      expect((result.error as TimeoutError).ms).toBe(200);
+    }
+  });
+
+  it('処理自体の失敗はそのまま返す', async () => {
+    const result = await withTimeout(Promise.resolve(err('FAILED' as const)), 200);
+    
+    expect(result).toEqual(err('FAILED'));
+  });
+
+  it('関数を渡すとタイムアウト時に中断されるシグナルを受け取れる', async () => {
+    let received: AbortSignalLike | undefined;
+    const promise = withTimeout(signal => {
+      received = signal;
+      return delayed(1000, 'late');
+    }, 100);
+    
+    expect(received?.aborted).toBe(false);
+    await vi.advanceTimersByTimeAsync(100);
+    await promise;
+    expect(received?.aborted).toBe(true);
+  });
+
+  it('関数が同期的に例外を投げた場合は拒否され、タイマーは残らない', async () => {
+    const promise = withTimeout(() => {
+      throw new Error('boom');
+    }, 100);
+    
+    await expect(promise).rejects.toThrow('boom');
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
+
+describe('ResultChainの中断 - Do(x, { signal })', () => {
+  it('中断されていなければ通常どおり実行される', async () => {
+    const controller = new AbortController();
+    const chain = Do(1, { signal: controller.signal }).chain(x => ok(x + 1));
+    
+    expectTypeOf(chain).toEqualTypeOf<ResultChain<number, string | AbortedError>>();
+    expect(await chain).toEqual(ok(2));
+  });
+
+  it('中断後の残りのステップは実行されずAbortedErrorで失敗する', async () => {
+    const controller = new AbortController();
+    const steps: string[] = [];
+    
+    const result = await Do(1, { signal: controller.signal })
+      .chainAsync(async value => {
+        steps.push('first');
+        controller.abort('cancelled by user');
+        return ok(value);
+      })
+      .map(value => {
+        steps.push('second');
+        return value;
+      });
+    
+    expect(steps).toEqual(['first']);
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toBeInstanceOf(AbortedError);
+      expect((result.error as AbortedError).reason).toBe('cancelled by user');
+    }
+  });
+
+  it('非同期のステップにシグナルが渡される', async () => {
+    const controller = new AbortController();
+    const signals: unknown[] = [];
+    
+    await Do(1, { signal: controller.signal })
+      .async(async (value, signal) => {
+        signals.push(signal);
+        return value;
+      })
+      .chainAsync(async (value, signal) => {
+        signals.push(signal);
+        return ok(value);
+      })
+      .tapAsync((_value, signal) => signals.push(signal));
+    
+    expect(signals).toEqual([controller.signal, controller.signal, controller.signal]);
+  });
+
+  it('中断前の失敗はそのまま引き継がれる', async () => {
+    const controller = new AbortController();
+    
+    const result = await Do<number, string>(1, { signal: controller.signal })
+      .chain(value => (value > 0 ? err('NOT_FOUND') : ok(value)))
+      .tapErr(() => controller.abort())
+      .map(value => value * 2);
+    
+    expect(result).toEqual(err('NOT_FOUND'));
+  });
+
+  it('失敗側のステップではAbortedErrorを処理できる', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    
+    const message = await Do(1, { signal: controller.signal })
+      .map(value => value + 1)
+      .mapErr(error => (error instanceof AbortedError ? 'aborted' : error))
+      .unwrapErr();
+    
+    expect(message).toBe('aborted');
+  });
+
+  it('成功して結果が確定した後に中断されても結果は変わらない', async () => {
+    const controller = new AbortController();
+    const chain = Do(1, { signal: controller.signal }).chainAsync(async value => ok(value + 1));
+    
+    expect(await chain).toEqual(ok(2));
+    controller.abort('too late');
+    expect(await chain).toEqual(ok(2));
+    expect(await chain.run()).toEqual(ok(2));
+    expect(await chain.unwrap()).toBe(2);
+  });
+
+  it('中断済みのシグナルではステップを実行せずAbortedErrorで失敗する', async () => {
+    const controller = new AbortController();
+    controller.abort('stop');
+    const step = vi.fn((value: number) => ok(value + 1));
+    
+    const result = await Do(1, { signal: controller.signal }).chain(step);
+    
+    expect(step).not.toHaveBeenCalled();
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toBeInstanceOf(AbortedError);
+    }
+  });
+
+  it('実行中のステップは完了を待たずにAbortedErrorで失敗する', async () => {
+    const controller = new AbortController();
+    
+    const promise = Do(1, { signal: controller.signal }).chainAsync(() => new Promise<Result<number, string>>(() => {}));
+    controller.abort('too slow');
+    const result = await promise;
+    
+    expect(isErr(result)).toBe(true);
+    if (isErr(result)) {
+      expect(result.error).toBeInstanceOf(AbortedError);
+      expect((result.error as AbortedError).reason).toBe('too slow');
+    }
+  });
+
+  it('エラーを変換するステップの後も中断でき、中断のエラーも同じ関数で変換される', async () => {
+    const controller = new AbortController();
+    const signals: unknown[] = [];
+    
+    const chain = Do(1, { signal: controller.signal })
+      .mapErr(error => (error instanceof AbortedError ? 'ABORTED' : 'FAILED'))
+      .mapErrAsync(async error => ({ code: error }))
+      .chainAsync(async (value, signal) => {
+        signals.push(signal);
+        controller.abort();
+        return ok(value + 1);
+      })
+      .map(value => value * 2);
+    
+    expectTypeOf(chain).toEqualTypeOf<ResultChain<number, unknown>>();
+    expect(await chain).toEqual(err({ code: 'ABORTED' }));
+    expect(signals).toEqual([controller.signal]);
+  });
+
+  it('復旧するステップの後はシグナルをコールバックに渡すが、中断してもステップは実行される', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const signals: unknown[] = [];
+    
+    const chain = Do(1, { signal: controller.signal })
+      .chain(value => ok(value * 10))
+      .recover(() => 0)
+      .async(async (value, signal) => {
+        signals.push(signal);
+        return value + 1;
+      });
+    
+    expectTypeOf(chain).toEqualTypeOf<ResultChain<number, unknown>>();
+    expect(await chain).toEqual(ok(1));
+    expect(signals).toEqual([controller.signal]);
+  });
+
+  it('withSignalで既存のチェーンにシグナルを付けられる', async () => {
+    const controller = new AbortController();
+    const chain = new ResultChain<number, 'FAILED'>(Promise.resolve(ok(1))).withSignal(controller.signal);
+    controller.abort();
+    
+    expectTypeOf(chain).toEqualTypeOf<ResultChain<number, 'FAILED' | AbortedError>>();
+    expect(isErr(await chain.map(value => value * 2))).toBe(true);
+  });
+});
@@ -1,18 +1,21 @@
 /**
  * @fileoverview ユーティリティ関数のテスト
  * 
- * このファイルでは、fromPromise/toPromise/mapPromiseResult/mapAsyncPromiseResult
- * 関数の動作をテストします。Promise とResult型の相互変換の使用例も含まれています。
+ * このファイルでは、fromPromise/settleAsync/tryCatch/fromThrowable/toPromise/mapPromiseResult/
+ * mapAsyncPromiseResult 関数の動作をテストします。Promise とResult型の相互変換の使用例も含まれています。
  */
 
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, expectTypeOf } from 'vitest';
 import { 
   ok, 
   err, 
   isOk, 
   isErr, 
   fromPromise, 
+  settleAsync,
   toPromise, 
+  tryCatch,
+  fromThrowable,
   mapPromiseResult, 
   mapAsyncPromiseResult,
   type Result 
@@ -81,6 +84,128 @@ describe('ユーティリティ関数', () => {
     });
   });
 
+  describe('エラー変換関数付きのfromPromise', () => {
+    class DbError {
+      constructor(readonly cause: unknown) {}
+    }
+
+    it('拒否理由をエラー変換関数で型付きのエラーに変換できる', async () => {
+      const result = await fromPromise(
+        Promise.reject(new Error('connection refused')),
+        error => new DbError(error)
+      );
+      
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expectTypeOf(result.error).toEqualTypeOf<DbError>();
+        expect(result.error).toBeInstanceOf(DbError);
+        expect((result.error.cause as Error).message).toBe('connection refused');
+      }
+    });
+
+    it('成功時はエラー変換関数が呼ばれない', async () => {
+      let called = false;
+      const result = await fromPromise(Promise.resolve(1), error => {
+        called = true;
+        return new DbError(error);
+      });
+      
+      expect(called).toBe(false);
+      expect(isOk(result)).toBe(true);
+    });
+
+    it('エラー変換関数がない場合のエラー型はunknownになる', async () => {
+      const result = await fromPromise(Promise.reject('reason'));
+      
+      if (isErr(result)) {
+        expectTypeOf(result.error).toEqualTypeOf<unknown>();
+      }
+      expect(isErr(result)).toBe(true);
+    });
+  });
+
+  describe('settleAsync関数 - すべてのPromiseをResultとして待つ', () => {
+    it('拒否されたPromiseがあっても入力順にすべての結果を返す', async () => {
+      const results = await settleAsync([
+        Promise.resolve(1),
+        Promise.reject(new Error('failed')),
+        Promise.resolve(3)
+      ]);
+      
+      expect(results).toHaveLength(3);
+      expect(results.map(result => result.success)).toEqual([true, false, true]);
+      const [first, second] = results;
+      if (isOk(first)) {
+        expect(first.data).toBe(1);
+      }
+      if (isErr(second)) {
+        expect(second.error).toBeInstanceOf(Error);
+      }
+      expectTypeOf(results).toEqualTypeOf<Result<number, unknown>[]>();
+    });
+
+    it('エラー変換関数で失敗の型を指定できる', async () => {
+      const results = await settleAsync(
+        [Promise.reject(new Error('failed')), Promise.resolve('ok')],
+        error => (error instanceof Error ? error.message : String(error))
+      );
+      
+      const [first] = results;
+      expect(isErr(first)).toBe(true);
+      if (isErr(first)) {
+        expect(first.error).toBe('failed');
+      }
+      expectTypeOf(results).toEqualTypeOf<Result<string, string>[]>();
+    });
+  });
+
+  describe('tryCatch/fromThrowable関数 - 同期関数の例外をResultに変換', () => {
+    class ParseError {
+      constructor(readonly message: string) {}
+    }
+
+    it('tryCatchは戻り値を成功結果にする', () => {
+      const result = tryCatch(() => JSON.parse('{"a": 1}'));
+      
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toEqual({ a: 1 });
+      }
+    });
+
+    it('tryCatchは例外を失敗結果にする', () => {
+      const result = tryCatch(
+        () => JSON.parse('{'),
+        error => new ParseError((error as Error).message)
+      );
+      
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expectTypeOf(result.error).toEqualTypeOf<ParseError>();
+        expect(result.error).toBeInstanceOf(ParseError);
+      }
+    });
+
+    it('fromThrowableで例外を投げる関数をResultを返す関数に変換できる', () => {
+      const safeParse = fromThrowable(
+        (json: string) => JSON.parse(json) as Record<string, unknown>,
+        () => new ParseError('invalid json')
+      );
+      
+      const valid = safeParse('{"ok": true}');
+      const invalid = safeParse('not json');
+      
+      expect(isOk(valid)).toBe(true);
+      if (isOk(valid)) {
+        expect(valid.data).toEqual({ ok: true });
+      }
+      expect(isErr(invalid)).toBe(true);
+      if (isErr(invalid)) {
+        expect(invalid.error.message).toBe('invalid json');
+      }
+    });
+  });
+
   describe('toPromise関数 - ResultからPromiseへの変換', () => {
     it('成功結果をPromiseに変換できる', async () => {
       const result = ok('success value');
@@ -167,6 +292,36 @@ describe('ユーティリティ関数', () => {
     });
   });
 
+  describe('エラー変換関数付きのmapPromiseResult/mapAsyncPromiseResult', () => {
+    it('変換中の例外をエラー変換関数で変換できる', async () => {
+      const mapped = await mapPromiseResult(
+        Promise.resolve(ok('not json')),
+        json => JSON.parse(json) as unknown,
+        () => 'PARSE_ERROR' as const
+      );
+      
+      expect(isErr(mapped)).toBe(true);
+      if (isErr(mapped)) {
+        expect(mapped.error).toBe('PARSE_ERROR');
+      }
+    });
+
+    it('非同期変換中の例外をエラー変換関数で変換できる', async () => {
+      const mapped = await mapAsyncPromiseResult(
+        Promise.resolve(ok(1)),
+        async () => {
+          throw new Error('boom');
+        },
+        error => `wrapped: ${(error as Error).message}`
+      );
+      
+      expect(isErr(mapped)).toBe(true);
+      if (isErr(mapped)) {
+        expect(mapped.error).toBe('wrapped: boom');
+      }
+    });
+  });
+
   describe('mapAsyncPromiseResult関数 - Promise<Result>の非同期変換', () => {
     it('Promise<Result>の成功値を非同期変換できる', async () => {
       const promiseResult = Promise.resolve(ok(8));
@@ -261,7 +416,7 @@ describe('ユーティリティ関数', () => {
 
     it('データ変換パイプラインの例', async () => {
       const processUserData = async (userId: number): Promise<Result<string, Error>> => {
-        const userResult = await fromPromise(fetchUser(userId));
+        const userResult = await fromPromise(fetchUser(userId), error => error as Error);
         
         return await mapAsyncPromiseResult(
           Promise.resolve(userResult),
@@ -269,7 +424,8 @@ describe('ユーティリティ関数', () => {
             // ユーザーデータを加工
             await new Promise(resolve => setTimeout(resolve, 20));
             return `${user.name} <${user.email}>`;
-          }
+          },
+          error => error as Error
         );
       };
 
@@ -282,7 +438,7 @@ describe('ユーティリティ関数', () => {
 
     it('複数の非同期処理の組み合わせ', async () => {
       const processMultipleUsers = async (userIds: number[]): Promise<Result<string[], Error>> => {
-        const userPromises = userIds.map(id => fromPromise(fetchUser(id)));
+        const userPromises = userIds.map(id => fromPromise(fetchUser(id), error => error as Error));
         const userResults = await Promise.all(userPromises);
         
         // すべてのユーザー取得が成功した場合のみ処理を続行
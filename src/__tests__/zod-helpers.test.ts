@@ -8,8 +8,22 @@
  * Zodの戻り値の形式をシミュレートしてテストしています。
  */
 
-import { describe, it, expect } from 'vitest';
-import { zodToResult, isOk, isErr } from '../index.js';
+import { describe, it, expect, expectTypeOf } from 'vitest';
+import {
+  ok,
+  zodToResult,
+  parseWith,
+  parseAsyncWith,
+  flattenZodError,
+  Do,
+  ResultChain,
+  AsyncResult,
+  isOk,
+  isErr,
+  type Result,
+  type ZodSchemaLike,
+  type InferOutput
+} from '../index.js';
 
 describe('Zod統合ヘルパー', () => {
   describe('zodToResult関数 - Zod結果のResult型変換', () => {
@@ -62,7 +76,8 @@ describe('Zod統合ヘルパー', () => {
       }
     });
 
-    it('dataがundefinedの成功結果はエラーとして扱われる', () => {
+    it('dataがundefinedの成功結果も成功として扱われる', () => {
+      // z.undefined() や z.string().optional() の検証は undefined で成功する
       const zodResult = {
         success: true,
         data: undefined
@@ -70,10 +85,9 @@ describe('Zod統合ヘルパー', () => {
 
       const result = zodToResult(zodResult);
       
-      expect(isErr(result)).toBe(true);
-      if (isErr(result)) {
-        expect(result.error).toBeInstanceOf(Error);
-        expect((result.error as Error).message).toBe('Validation failed');
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBeUndefined();
       }
     });
   });
@@ -352,4 +366,110 @@ describe('Zod統合ヘルパー', () => {
       }
     });
   });
+
+  describe('parseWith/parseAsyncWith関数 - スキーマによる直接の検証', () => {
+    // ZodのZodErrorとスキーマをシミュレート
+    class ZodError {
+      constructor(readonly issues: { path: (string | number)[]; message: string; code: string }[]) {}
+    }
+
+    const schema = <T>(
+      check: (data: unknown) => data is T,
+      issue: { path: (string | number)[]; message: string; code: string }
+    ): ZodSchemaLike<T, ZodError> => {
+      const safeParse = (data: unknown) =>
+        check(data)
+          ? { success: true as const, data }
+          : { success: false as const, error: new ZodError([issue]) };
+      return {
+        _output: undefined as T,
+        safeParse,
+        safeParseAsync: async data => safeParse(data)
+      };
+    };
+
+    const userSchema = schema(
+      (data): data is { name: string; age: number } =>
+        typeof data === 'object' &&
+        data !== null &&
+        typeof (data as { name?: unknown }).name === 'string' &&
+        typeof (data as { age?: unknown }).age === 'number',
+      { path: ['user', 'name'], message: 'Expected string', code: 'invalid_type' }
+    );
+
+    const optionalSchema = schema(
+      (data): data is string | undefined => data === undefined || typeof data === 'string',
+      { path: [], message: 'Expected string', code: 'invalid_type' }
+    );
+
+    it('スキーマの出力型で成功結果を返す', () => {
+      const result = parseWith(userSchema, { name: 'Alice', age: 30 });
+      
+      expectTypeOf(result).toEqualTypeOf<Result<{ name: string; age: number }, ZodError>>();
+      expectTypeOf<InferOutput<typeof userSchema>>().toEqualTypeOf<{ name: string; age: number }>();
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data.name).toBe('Alice');
+      }
+    });
+
+    it('検証に失敗した場合は型付きのZodErrorを返す', () => {
+      const result = parseWith(userSchema, { name: 1 });
+      
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBeInstanceOf(ZodError);
+        expect(result.error.issues[0].code).toBe('invalid_type');
+      }
+    });
+
+    it('undefinedで成功する検証も成功として扱う', () => {
+      const result = parseWith(optionalSchema, undefined);
+      
+      expect(isOk(result)).toBe(true);
+    });
+
+    it('parseAsyncWithは非同期の検証を待ってから結果を返す', async () => {
+      const valid = await parseAsyncWith(userSchema, { name: 'Bob', age: 20 });
+      const invalid = await parseAsyncWith(userSchema, null);
+      
+      expect(isOk(valid)).toBe(true);
+      expect(isErr(invalid)).toBe(true);
+    });
+
+    it('parseAsyncWithはAsyncResultを返すため、そのまま変換をつなげられる', async () => {
+      const pending = parseAsyncWith(userSchema, { name: 'Bob', age: 20 });
+      
+      expect(pending).toBeInstanceOf(AsyncResult);
+      expect(await pending.map(user => user.name)).toEqual(ok('Bob'));
+    });
+
+    it('flattenZodErrorでフィールドごとのエラーに変換できる', () => {
+      const result = parseWith(userSchema, {}).mapErr(flattenZodError);
+      
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toEqual([
+          { path: ['user', 'name'], message: 'Expected string', code: 'invalid_type' }
+        ]);
+      }
+    });
+
+    it('ResultChain.parseでチェーンの途中で検証できる', async () => {
+      const chain = Do<unknown, never>({ name: 'Carol', age: 41 })
+        .parse(userSchema)
+        .chain(user => ok(`${user.name} (${user.age})`));
+      
+      expectTypeOf(chain).toEqualTypeOf<ResultChain<string, ZodError>>();
+      
+      const result = await chain;
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe('Carol (41)');
+      }
+      
+      const failed = await Do<unknown, never>('not a user').parse(userSchema);
+      expect(isErr(failed)).toBe(true);
+    });
+  });
 });
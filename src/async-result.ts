@@ -0,0 +1,190 @@
+/**
+ * AsyncResult: a thenable Result with the same combinators as Success/Failure
+ */
+
+import type { Result, MatchHandlers, ErrorMapperArg } from './types.js';
+import { ok, err, mapThrown } from './result.js';
+
+/**
+ * Source of an AsyncResult: a Promise of a Result (eager), or a function
+ * returning one that is only called once the AsyncResult is awaited (lazy)
+ */
+export type AsyncResultInput<T, E> = PromiseLike<Result<T, E>> | (() => PromiseLike<Result<T, E>>);
+
+/**
+ * A Result that is still being computed.
+ * It implements Promise, so it can be awaited to get the Result, and offers the
+ * combinators of Success/Failure with callbacks that may return Promises.
+ * Each step runs once: right away when the source is eager (or has already
+ * started), and otherwise when the AsyncResult (or one derived from it) is awaited.
+ */
+export class AsyncResult<T, E> implements Promise<Result<T, E>> {
+  readonly [Symbol.toStringTag] = 'AsyncResult';
+
+  private promise: Promise<Result<T, E>> | undefined;
+
+  constructor(private readonly source: AsyncResultInput<T, E>) {
+    if (typeof source !== 'function') {
+      this.promise = Promise.resolve(source);
+    }
+  }
+
+  /**
+   * Transforms the success value.
+   * A throw or rejection of `fn` becomes a Failure whose error is mapped with
+   * `mapError` (the error type is unknown if it is left out).
+   */
+  map<U, F = unknown>(fn: (data: T) => U | PromiseLike<U>, ...mapError: ErrorMapperArg<F>): AsyncResult<U, E | F> {
+    return this.step<U, E | F>(result =>
+      result.success ? catchThrown(async () => ok(await fn(result.data)), mapError) : result
+    );
+  }
+
+  /**
+   * Chains another (possibly async) Result-returning operation on success
+   */
+  andThen<U = never, F = never>(fn: (data: T) => Result<U, F> | PromiseLike<Result<U, F>>): AsyncResult<U, E | F> {
+    return this.step<U, E | F>(result => (result.success ? fn(result.data) : result));
+  }
+
+  /**
+   * Alias of andThen
+   */
+  flatMap<U = never, F = never>(fn: (data: T) => Result<U, F> | PromiseLike<Result<U, F>>): AsyncResult<U, E | F> {
+    return this.andThen(fn);
+  }
+
+  /**
+   * Transforms the error; a throw or rejection of `fn` is handled like in map
+   */
+  mapErr<F, G = unknown>(fn: (error: E) => F | PromiseLike<F>, ...mapError: ErrorMapperArg<G>): AsyncResult<T, F | G> {
+    return this.step<T, F | G>(result =>
+      result.success ? result : catchThrown(async () => err(await fn(result.error)), mapError)
+    );
+  }
+
+  /**
+   * Recovers from a failure with another (possibly async) Result-returning operation
+   */
+  orElse<U = never, F = never>(fn: (error: E) => Result<U, F> | PromiseLike<Result<U, F>>): AsyncResult<T | U, F> {
+    return this.step<T | U, F>(result => (result.success ? result : fn(result.error)));
+  }
+
+  /**
+   * Recovers from a failure with a fallback value; a throw or rejection of
+   * `fn` is handled like in map
+   */
+  recover<U, F = unknown>(fn: (error: E) => U | PromiseLike<U>, ...mapError: ErrorMapperArg<F>): AsyncResult<T | U, F> {
+    return this.step<T | U, F>(result =>
+      result.success ? result : catchThrown(async () => ok(await fn(result.error)), mapError)
+    );
+  }
+
+  /**
+   * Runs a side effect on the success value, waiting for it if it returns a Promise.
+   * A throw or rejection of `fn` is handled like in map.
+   */
+  tap<F = unknown>(fn: (data: T) => unknown, ...mapError: ErrorMapperArg<F>): AsyncResult<T, E | F> {
+    return this.step<T, E | F>(result =>
+      result.success
+        ? catchThrown(async () => {
+            await fn(result.data);
+            return result;
+          }, mapError)
+        : result
+    );
+  }
+
+  /**
+   * Runs a side effect on the error, waiting for it if it returns a Promise.
+   * A throw or rejection of `fn` is handled like in map.
+   */
+  tapErr<F = unknown>(fn: (error: E) => unknown, ...mapError: ErrorMapperArg<F>): AsyncResult<T, E | F> {
+    return this.step<T, E | F>(result =>
+      result.success
+        ? result
+        : catchThrown(async () => {
+            await fn(result.error);
+            return result;
+          }, mapError)
+    );
+  }
+
+  /**
+   * Pattern matches on the settled Result
+   */
+  async match<A, B>(handlers: MatchHandlers<T, E, A | PromiseLike<A>, B | PromiseLike<B>>): Promise<A | B> {
+    const result = await this;
+    return result.success ? handlers.ok(result.data) : handlers.err(result.error);
+  }
+
+  /**
+   * Gets the success value (rejects with UnwrapError on failure)
+   */
+  async unwrap(): Promise<T> {
+    return (await this).unwrap();
+  }
+
+  /**
+   * Gets the success value or a default value
+   */
+  async unwrapOr<U>(defaultValue: U): Promise<T | U> {
+    return (await this).unwrapOr(defaultValue);
+  }
+
+  /**
+   * Gets the success value or computes one from the error
+   */
+  async unwrapOrElse<U>(fn: (error: E) => U | PromiseLike<U>): Promise<T | U> {
+    const result = await this;
+    return result.success ? result.data : fn(result.error);
+  }
+
+  /**
+   * Resolves with the settled Result, starting a lazy source on first use
+   */
+  then<A = Result<T, E>, B = never>(
+    onfulfilled?: ((value: Result<T, E>) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): Promise<A | B> {
+    if (!this.promise) {
+      const source = this.source as () => PromiseLike<Result<T, E>>;
+      this.promise = Promise.resolve().then(source);
+    }
+    return this.promise.then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Handles a rejection (a rejected source or a throw from an andThen/orElse
+   * callback), like Promise.catch
+   */
+  catch<B = never>(onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null): Promise<Result<T, E> | B> {
+    return this.then(undefined, onrejected);
+  }
+
+  /**
+   * Runs a callback once settled, like Promise.finally
+   */
+  finally(onfinally?: (() => void) | null): Promise<Result<T, E>> {
+    return this.then().finally(onfinally);
+  }
+
+  // Derives an AsyncResult from the settled Result, running the step right
+  // away unless this AsyncResult is lazy and has not started yet
+  private step<U, F>(fn: (result: Result<T, E>) => Result<U, F> | PromiseLike<Result<U, F>>): AsyncResult<U, F> {
+    return new AsyncResult(this.promise ? this.then(fn) : () => this.then(fn));
+  }
+}
+
+// Runs a callback producing a Result, turning a throw or rejection into a
+// Failure whose error is mapped with mapError
+async function catchThrown<U, F, G>(
+  fn: () => Promise<Result<U, F>>,
+  mapError: ErrorMapperArg<G>
+): Promise<Result<U, F | G>> {
+  try {
+    return await fn();
+  } catch (error) {
+    return err(mapThrown(error, mapError));
+  }
+}
@@ -0,0 +1,394 @@
+/**
+ * Combinators over collections of Results
+ */
+
+import type {
+  Result,
+  AnyResult,
+  SuccessValue,
+  FailureError,
+  SuccessValues,
+  NonEmptyArray,
+  Validators,
+  ValidatorResults,
+  AsyncResultSource,
+  SourceResult
+} from './types.js';
+import { ok, err } from './result.js';
+import { fromPromise } from './utils.js';
+import { AsyncResult } from './async-result.js';
+import { AbortedError } from './errors.js';
+import type { AbortSignalLike } from './timers.js';
+
+/**
+ * Options for allAsync
+ */
+export interface AllAsyncOptions {
+  /** Maximum number of sources awaited at once: an integer >= 1 or Infinity (default: unlimited) */
+  concurrency?: number;
+}
+
+/**
+ * Options for traverseAsync
+ */
+export interface TraverseOptions extends AllAsyncOptions {
+  /** Process every item and fail with all errors instead of the first one */
+  collectErrors?: boolean;
+}
+
+/**
+ * Collects an array or tuple of Results into a single Result.
+ * Returns the first Failure, or a Success holding every value in order.
+ */
+export function all<Rs extends readonly AnyResult[]>(
+  results: readonly [...Rs]
+): Result<SuccessValues<Rs>, FailureError<Rs[number]>> {
+  const values: unknown[] = [];
+  for (const result of results) {
+    if (!result.success) {
+      return result as Result<never, FailureError<Rs[number]>>;
+    }
+    values.push(result.data);
+  }
+  return ok(values as SuccessValues<Rs>);
+}
+
+/**
+ * Collects a record of Results into a Result of a record.
+ * Returns the first Failure in key order.
+ */
+export function combine<Rs extends Record<string, AnyResult>>(
+  results: Rs
+): Result<SuccessValues<Rs>, FailureError<Rs[keyof Rs]>> {
+  const values: Record<string, unknown> = {};
+  for (const key of Object.keys(results)) {
+    const result = results[key];
+    if (!result.success) {
+      return result as Result<never, FailureError<Rs[keyof Rs]>>;
+    }
+    values[key] = result.data;
+  }
+  return ok(values as SuccessValues<Rs>);
+}
+
+/**
+ * Error-accumulating version of all.
+ * Returns every error in order when at least one Result is a Failure.
+ */
+export function allWithErrors<Rs extends readonly AnyResult[]>(
+  results: readonly [...Rs]
+): Result<SuccessValues<Rs>, NonEmptyArray<FailureError<Rs[number]>>> {
+  const values: unknown[] = [];
+  const errors: unknown[] = [];
+  for (const result of results) {
+    if (result.success) {
+      values.push(result.data);
+    } else {
+      errors.push(result.error);
+    }
+  }
+  if (errors.length > 0) {
+    return err(errors as NonEmptyArray<FailureError<Rs[number]>>);
+  }
+  return ok(values as SuccessValues<Rs>);
+}
+
+/**
+ * Error-accumulating version of combine.
+ * Returns every error in key order when at least one Result is a Failure.
+ */
+export function combineWithErrors<Rs extends Record<string, AnyResult>>(
+  results: Rs
+): Result<SuccessValues<Rs>, NonEmptyArray<FailureError<Rs[keyof Rs]>>> {
+  const values: Record<string, unknown> = {};
+  const errors: unknown[] = [];
+  for (const key of Object.keys(results)) {
+    const result = results[key];
+    if (result.success) {
+      values[key] = result.data;
+    } else {
+      errors.push(result.error);
+    }
+  }
+  if (errors.length > 0) {
+    return err(errors as NonEmptyArray<FailureError<Rs[keyof Rs]>>);
+  }
+  return ok(values as SuccessValues<Rs>);
+}
+
+/**
+ * Runs independent validators against the same value and collects either
+ * every validated field or every error.
+ */
+export function validate<T, V extends Validators<T>>(
+  value: T,
+  validators: V
+): Result<SuccessValues<ValidatorResults<V>>, NonEmptyArray<FailureError<ValidatorResults<V>[keyof V]>>> {
+  const results: Record<string, AnyResult> = {};
+  for (const key of Object.keys(validators)) {
+    results[key] = validators[key](value);
+  }
+  return combineWithErrors(results) as Result<
+    SuccessValues<ValidatorResults<V>>,
+    NonEmptyArray<FailureError<ValidatorResults<V>[keyof V]>>
+  >;
+}
+
+/**
+ * Asynchronous version of all.
+ * Accepts Promises of Results or functions returning them; functions are only
+ * called once a concurrency slot is free. Resolves with the first Failure as
+ * soon as it arrives and starts no further work after that; rejections of
+ * Promises that are no longer awaited by then are ignored.
+ */
+export function allAsync<Ss extends readonly AsyncResultSource[]>(
+  sources: readonly [...Ss],
+  options: AllAsyncOptions = {}
+): AsyncResult<SuccessValues<{ [K in keyof Ss]: SourceResult<Ss[K]> }>, FailureError<SourceResult<Ss[number]>>> {
+  const runs = sources.map((source: AsyncResultSource): (() => PromiseLike<AnyResult>) => {
+    if (typeof source === 'function') {
+      return source;
+    }
+    // The Promise is already running: handle its rejection now, so that one
+    // arriving after a short-circuit is not reported as unhandled
+    const promise = Promise.resolve(source);
+    promise.catch(() => {});
+    return () => promise;
+  });
+  return new AsyncResult(
+    runConcurrently(sources.length, index => runs[index](), options) as Promise<
+      Result<SuccessValues<{ [K in keyof Ss]: SourceResult<Ss[K]> }>, FailureError<SourceResult<Ss[number]>>>
+    >
+  );
+}
+
+/**
+ * Applies a Result-returning function to every item and collects the values
+ * in order, stopping at the first Failure.
+ */
+export function traverse<A, B, E>(
+  items: Iterable<A>,
+  fn: (item: A, index: number) => Result<B, E>
+): Result<B[], E> {
+  const values: B[] = [];
+  let index = 0;
+  for (const item of items) {
+    const result = fn(item, index++);
+    if (!result.success) {
+      return result;
+    }
+    values.push(result.data);
+  }
+  return ok(values);
+}
+
+/**
+ * Applies a (possibly async) Result-returning function to every item with at
+ * most `concurrency` calls in flight, collecting the values in input order.
+ * Resolves with the first Failure and schedules no further calls, unless
+ * `collectErrors` is set, in which case every item is processed and all
+ * errors are returned in input order.
+ */
+export function traverseAsync<A, B, E = never>(
+  items: Iterable<A>,
+  fn: (item: A, index: number) => Result<B, E> | PromiseLike<Result<B, E>>,
+  options: TraverseOptions & { collectErrors: true }
+): AsyncResult<B[], NonEmptyArray<E>>;
+export function traverseAsync<A, B, E = never>(
+  items: Iterable<A>,
+  fn: (item: A, index: number) => Result<B, E> | PromiseLike<Result<B, E>>,
+  options?: TraverseOptions & { collectErrors?: false }
+): AsyncResult<B[], E>;
+export function traverseAsync<A, B, E = never>(
+  items: Iterable<A>,
+  fn: (item: A, index: number) => Result<B, E> | PromiseLike<Result<B, E>>,
+  options?: TraverseOptions
+): AsyncResult<B[], E | NonEmptyArray<E>>;
+export function traverseAsync<A, B, E = never>(
+  items: Iterable<A>,
+  fn: (item: A, index: number) => Result<B, E> | PromiseLike<Result<B, E>>,
+  options: TraverseOptions = {}
+): AsyncResult<B[], E | NonEmptyArray<E>> {
+  const list = Array.from(items);
+  return new AsyncResult(
+    runConcurrently(list.length, index => fn(list[index], index), options) as Promise<Result<B[], E | NonEmptyArray<E>>>
+  );
+}
+
+/**
+ * traverseAsync that starts no further calls once `signal` is aborted and then
+ * fails with an AbortedError (used by ResultChain.traverse, not exported from the package)
+ */
+export function traverseUntilAborted<A, B, E>(
+  items: Iterable<A>,
+  fn: (item: A, index: number) => Result<B, E> | PromiseLike<Result<B, E>>,
+  options: TraverseOptions,
+  signal: AbortSignalLike | undefined
+): Promise<Result<B[], E | NonEmptyArray<E> | AbortedError>> {
+  const list = Array.from(items);
+  return runConcurrently(list.length, index => fn(list[index], index), options, signal) as Promise<
+    Result<B[], E | NonEmptyArray<E> | AbortedError>
+  >;
+}
+
+/**
+ * Maps every item with an async function, at most `concurrency` at a time,
+ * turning the first rejection into a Failure
+ */
+export function mapConcurrent<A, B>(
+  items: Iterable<A>,
+  fn: (item: A, index: number) => PromiseLike<B>,
+  options: AllAsyncOptions = {}
+): AsyncResult<B[], unknown> {
+  return traverseAsync(items, (item, index) => fromPromise(Promise.resolve().then(() => fn(item, index))), options);
+}
+
+/**
+ * Successes and failures of a list of Results, split apart
+ */
+export interface Partitioned<T, E> {
+  oks: T[];
+  errs: E[];
+}
+
+/**
+ * An error together with the position of the Result it came from
+ */
+export interface IndexedError<E> {
+  index: number;
+  error: E;
+}
+
+/**
+ * Splits Results into success values and errors, keeping the order of each
+ */
+export function partition<R extends AnyResult>(
+  results: Iterable<R>
+): Partitioned<SuccessValue<R>, FailureError<R>> {
+  const partitioned: Partitioned<SuccessValue<R>, FailureError<R>> = { oks: [], errs: [] };
+  for (const result of results) {
+    if (result.success) {
+      partitioned.oks.push(result.data as SuccessValue<R>);
+    } else {
+      partitioned.errs.push(result.error as FailureError<R>);
+    }
+  }
+  return partitioned;
+}
+
+/**
+ * Like partition, but keeps the original position of every failure
+ */
+export function partitionWithIndex<R extends AnyResult>(
+  results: Iterable<R>
+): Partitioned<SuccessValue<R>, IndexedError<FailureError<R>>> {
+  const partitioned: Partitioned<SuccessValue<R>, IndexedError<FailureError<R>>> = { oks: [], errs: [] };
+  let index = 0;
+  for (const result of results) {
+    if (result.success) {
+      partitioned.oks.push(result.data as SuccessValue<R>);
+    } else {
+      partitioned.errs.push({ index, error: result.error as FailureError<R> });
+    }
+    index++;
+  }
+  return partitioned;
+}
+
+/**
+ * Calls `run` for indices 0..count-1 with at most `concurrency` calls in flight
+ * and collects the values by index. Resolves with the first Failure (or, with
+ * `collectErrors`, every error in index order); rejects if a call rejects.
+ * Once `signal` is aborted no further call is started and it resolves with an
+ * AbortedError. Rejects with a RangeError if `concurrency` is not an integer >= 1 or Infinity.
+ */
+function runConcurrently(
+  count: number,
+  run: (index: number) => AnyResult | PromiseLike<AnyResult>,
+  options: TraverseOptions,
+  signal?: AbortSignalLike
+): Promise<Result<unknown[], unknown>> {
+  const concurrency = options.concurrency ?? Infinity;
+  if (concurrency !== Infinity && !(Number.isInteger(concurrency) && concurrency >= 1)) {
+    return Promise.reject(new RangeError(`concurrency must be an integer >= 1 or Infinity, got ${concurrency}`));
+  }
+
+  return new Promise((resolve, reject) => {
+    const values: unknown[] = new Array(count);
+    const errors: { index: number; error: unknown }[] = [];
+    let started = 0;
+    let running = 0;
+    let completed = 0;
+    let settled = false;
+
+    const settle = (outcome: () => void): void => {
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      outcome();
+    };
+
+    const onAbort = (): void => {
+      if (!settled) {
+        settle(() => resolve(err(new AbortedError(signal?.reason))));
+      }
+    };
+
+    const finish = (): void => {
+      settle(() => {
+        if (errors.length > 0) {
+          resolve(err(errors.sort((a, b) => a.index - b.index).map(({ error }) => error)));
+        } else {
+          resolve(ok(values));
+        }
+      });
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+
+    if (count === 0) {
+      finish();
+      return;
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const launch = (): void => {
+      while (!settled && running < concurrency && started < count) {
+        const index = started++;
+        running++;
+        Promise.resolve()
+          .then(() => run(index))
+          .then(
+            result => {
+              running--;
+              if (settled) return;
+              if (result.success) {
+                values[index] = result.data;
+              } else if (options.collectErrors) {
+                errors.push({ index, error: result.error });
+              } else {
+                settle(() => resolve(result));
+                return;
+              }
+              completed++;
+              if (completed === count) {
+                finish();
+              } else {
+                launch();
+              }
+            },
+            error => {
+              running--;
+              if (settled) return;
+              settle(() => reject(error));
+            }
+          );
+      }
+    };
+
+    launch();
+  });
+}
@@ -0,0 +1,428 @@
+/**
+ * Result and Option implementations and their constructors
+ *
+ * Success/Failure and Some/None convert into each other (toOption/toResult),
+ * so they live in this leaf module that result.ts and option.ts re-export.
+ */
+
+import type {
+  Result,
+  Success,
+  Failure,
+  FlattenResult,
+  ErrorMapperArg,
+  MatchHandlers,
+  Option,
+  Some,
+  None,
+  OptionMatchHandlers
+} from './types.js';
+import { UnwrapError } from './errors.js';
+
+/**
+ * Creates a success result with chainable methods
+ */
+export function ok<T>(value: T): Success<T> {
+  return new SuccessImpl(value);
+}
+
+/**
+ * Creates a failure result with chainable methods
+ */
+export function err<E>(error: E): Failure<E> {
+  return new FailureImpl(error);
+}
+
+/**
+ * Implementation of Success with chainable methods
+ */
+class SuccessImpl<T> implements Success<T> {
+  readonly success = true as const;
+
+  constructor(readonly data: T) {}
+
+  map<U>(fn: (data: T) => U): Success<U> {
+    return ok(fn(this.data));
+  }
+
+  flatMap<U = never, F = never>(fn: (data: T) => Result<U, F>): Result<U, F> {
+    return fn(this.data);
+  }
+
+  andThen<U = never, F = never>(fn: (data: T) => Result<U, F>): Result<U, F> {
+    return this.flatMap(fn);
+  }
+
+  async mapAsync<V, F = unknown>(
+    fn: (data: T) => V,
+    ...mapError: ErrorMapperArg<F>
+  ): Promise<FlattenResult<Awaited<V>> | Failure<F>> {
+    try {
+      const result: unknown = fn(this.data);
+
+      // If the function returns a Promise, await it
+      if (result && typeof result === 'object' && 'then' in result) {
+        const awaitedResult: unknown = await result;
+        // If the awaited result is a Result, return it directly
+        if (awaitedResult && typeof awaitedResult === 'object' && 'success' in awaitedResult) {
+          return awaitedResult as FlattenResult<Awaited<V>>;
+        }
+        // Otherwise, wrap the value in a success Result
+        return ok(awaitedResult) as FlattenResult<Awaited<V>>;
+      }
+
+      // If the function returns a Result, return it directly
+      if (result && typeof result === 'object' && 'success' in result) {
+        return result as FlattenResult<Awaited<V>>;
+      }
+
+      // Otherwise, wrap the value in a success Result
+      return ok(result) as FlattenResult<Awaited<V>>;
+    } catch (error) {
+      return err(mapThrown(error, mapError));
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  mapErr<F>(_fn: (error: never) => F): Success<T> {
+    return this;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  mapError<F>(_fn: (error: never) => F): Success<T> {
+    return this;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async mapErrAsync<F>(_fn: (error: never) => F | Promise<F>): Promise<Success<T>> {
+    return this;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  orElse<U = never, F = never>(_fn: (error: never) => Result<U, F>): Success<T> {
+    return this;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  recoverWith<U = never, F = never>(_fn: (error: never) => Result<U, F>): Success<T> {
+    return this;
+  }
+
+  async orElseAsync<U = never, F = never>(
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _fn: (error: never) => Result<U, F> | Promise<Result<U, F>>
+  ): Promise<Success<T>> {
+    return this;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  recover<U>(_fn: (error: never) => U): Success<T> {
+    return this;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async recoverAsync<U>(_fn: (error: never) => U | Promise<U>): Promise<Success<T>> {
+    return this;
+  }
+
+  tap(fn: (data: T) => void): Success<T> {
+    fn(this.data);
+    return this;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  tapErr(_fn: (error: never) => void): Success<T> {
+    return this;
+  }
+
+  async tapAsync(fn: (data: T) => unknown): Promise<Success<T>> {
+    await fn(this.data);
+    return this;
+  }
+
+  match<A, B>(handlers: MatchHandlers<T, never, A, B>): A {
+    return handlers.ok(this.data);
+  }
+
+  unwrap(): T {
+    return this.data;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  unwrapOr<U>(_defaultValue: U): T {
+    return this.data;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  unwrapOrElse<U>(_fn: (error: never) => U): T {
+    return this.data;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  expect(_message: string): T {
+    return this.data;
+  }
+
+  unwrapErr(): never {
+    throw new UnwrapError('Called unwrapErr on a Success', this.data);
+  }
+
+  toOption(): Some<T> {
+    return some(this.data);
+  }
+
+  *[Symbol.iterator](): Generator<never, T, unknown> {
+    return this.data;
+  }
+}
+
+/**
+ * Implementation of Failure with chainable methods
+ */
+class FailureImpl<E> implements Failure<E> {
+  readonly success = false as const;
+
+  constructor(readonly error: E) {}
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  map<U>(_fn: (data: never) => U): Failure<E> {
+    return this;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  flatMap<U = never, F = never>(_fn: (data: never) => Result<U, F>): Failure<E> {
+    return this;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  andThen<U = never, F = never>(_fn: (data: never) => Result<U, F>): Failure<E> {
+    return this;
+  }
+
+  async mapAsync<V, F = unknown>(
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    _fn: (data: never) => V,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    ..._mapError: ErrorMapperArg<F>
+  ): Promise<Failure<E>> {
+    return this;
+  }
+
+  mapErr<F>(fn: (error: E) => F): Failure<F> {
+    return err(fn(this.error));
+  }
+
+  mapError<F>(fn: (error: E) => F): Failure<F> {
+    return this.mapErr(fn);
+  }
+
+  async mapErrAsync<F>(fn: (error: E) => F | Promise<F>): Promise<Failure<F>> {
+    return err(await fn(this.error));
+  }
+
+  orElse<U = never, F = never>(fn: (error: E) => Result<U, F>): Result<U, F> {
+    return fn(this.error);
+  }
+
+  recoverWith<U = never, F = never>(fn: (error: E) => Result<U, F>): Result<U, F> {
+    return this.orElse(fn);
+  }
+
+  async orElseAsync<U = never, F = never>(
+    fn: (error: E) => Result<U, F> | Promise<Result<U, F>>
+  ): Promise<Result<U, F>> {
+    return fn(this.error);
+  }
+
+  recover<U>(fn: (error: E) => U): Success<U> {
+    return ok(fn(this.error));
+  }
+
+  async recoverAsync<U>(fn: (error: E) => U | Promise<U>): Promise<Success<U>> {
+    return ok(await fn(this.error));
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  tap(_fn: (data: never) => void): Failure<E> {
+    return this;
+  }
+
+  tapErr(fn: (error: E) => void): Failure<E> {
+    fn(this.error);
+    return this;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async tapAsync(_fn: (data: never) => unknown): Promise<Failure<E>> {
+    return this;
+  }
+
+  match<A, B>(handlers: MatchHandlers<never, E, A, B>): B {
+    return handlers.err(this.error);
+  }
+
+  unwrap(): never {
+    throw new UnwrapError('Called unwrap on a Failure', this.error);
+  }
+
+  unwrapOr<U>(defaultValue: U): U {
+    return defaultValue;
+  }
+
+  unwrapOrElse<U>(fn: (error: E) => U): U {
+    return fn(this.error);
+  }
+
+  expect(message: string): never {
+    throw new UnwrapError(message, this.error);
+  }
+
+  unwrapErr(): E {
+    return this.error;
+  }
+
+  toOption(): None {
+    return none;
+  }
+
+  *[Symbol.iterator](): Generator<Failure<E>, never, unknown> {
+    yield this;
+    // gen stops at the yielded failure, so this is only reached by plain iteration
+    return undefined as never;
+  }
+}
+
+/**
+ * Passes a caught exception through the optional error mapper
+ */
+export function mapThrown<F>(error: unknown, mapError: ErrorMapperArg<F>): F {
+  const [mapper] = mapError;
+  // ErrorMapperArg only allows leaving the mapper out when F is unknown
+  return mapper ? mapper(error) : (error as F);
+}
+
+/**
+ * Creates a present option with chainable methods
+ */
+export function some<T>(value: T): Some<T> {
+  return new SomeImpl(value);
+}
+
+/**
+ * Implementation of Some with chainable methods
+ */
+class SomeImpl<T> implements Some<T> {
+  readonly some = true as const;
+
+  constructor(readonly value: T) {}
+
+  map<U>(fn: (value: T) => U): Some<U> {
+    return new SomeImpl(fn(this.value));
+  }
+
+  flatMap<U>(fn: (value: T) => Option<U>): Option<U> {
+    return fn(this.value);
+  }
+
+  andThen<U>(fn: (value: T) => Option<U>): Option<U> {
+    return this.flatMap(fn);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  orElse<U>(_fn: () => Option<U>): Some<T> {
+    return this;
+  }
+
+  match<A, B>(handlers: OptionMatchHandlers<T, A, B>): A {
+    return handlers.some(this.value);
+  }
+
+  unwrap(): T {
+    return this.value;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  unwrapOr<U>(_defaultValue: U): T {
+    return this.value;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  unwrapOrElse<U>(_fn: () => U): T {
+    return this.value;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  expect(_message: string): T {
+    return this.value;
+  }
+
+  tap(fn: (value: T) => unknown): Some<T> {
+    fn(this.value);
+    return this;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  toResult<F>(_errorIfNone: F): Success<T> {
+    return ok(this.value);
+  }
+}
+
+/**
+ * Implementation of None with chainable methods
+ */
+class NoneImpl implements None {
+  readonly some = false as const;
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  map<U>(_fn: (value: never) => U): None {
+    return this;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  flatMap<U>(_fn: (value: never) => Option<U>): None {
+    return this;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  andThen<U>(_fn: (value: never) => Option<U>): None {
+    return this;
+  }
+
+  orElse<U>(fn: () => Option<U>): Option<U> {
+    return fn();
+  }
+
+  match<A, B>(handlers: OptionMatchHandlers<never, A, B>): B {
+    return handlers.none();
+  }
+
+  unwrap(): never {
+    throw new UnwrapError('Called unwrap on a None', undefined);
+  }
+
+  unwrapOr<U>(defaultValue: U): U {
+    return defaultValue;
+  }
+
+  unwrapOrElse<U>(fn: () => U): U {
+    return fn();
+  }
+
+  expect(message: string): never {
+    throw new UnwrapError(message, undefined);
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  tap(_fn: (value: never) => unknown): None {
+    return this;
+  }
+
+  toResult<F>(errorIfNone: F): Failure<F> {
+    return err(errorIfNone);
+  }
+}
+
+/**
+ * The absent option
+ */
+export const none: None = new NoneImpl();
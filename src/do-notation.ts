@@ -2,86 +2,542 @@
  * Do notation implementation for Result types
  */
 
-import type { Result } from './types.js';
-import { ok, err } from './result.js';
+import type {
+  Result,
+  Success,
+  FailureError,
+  SuccessValues,
+  NonEmptyArray,
+  Validators,
+  ValidatorResults,
+  TagHandlers,
+  TagHandlerResult,
+  BindScope,
+  ErrorMapperArg
+} from './types.js';
+import { ok, err, mapThrown } from './result.js';
 import { isOk } from './guards.js';
+import { dispatchTag } from './match.js';
+import { validate, traverseUntilAborted } from './combinators.js';
+import type { TraverseOptions } from './combinators.js';
+import { parseAsyncWith } from './zod-helpers.js';
+import { retry } from './retry.js';
+import type { RetryOptions } from './retry.js';
+import { AbortedError } from './errors.js';
+import type { RetryExhaustedError } from './errors.js';
+import type { AbortSignalLike } from './timers.js';
+import type { ZodSchemaLike, InferOutput, InferSchemaError } from './zod-helpers.js';
+
+/**
+ * 名前付きの束縛を始める前の空のスコープ
+ */
+type EmptyScope = Record<never, never>;
+
+/**
+ * チェーンを中断するシグナルと、中断されたときのエラーを作る関数
+ * toErrorがない場合はシグナルをコールバックに渡すだけで、中断してもステップは実行される
+ */
+interface Cancellation<E> {
+  readonly signal: AbortSignalLike;
+  readonly toError?: (reason: unknown) => E | PromiseLike<E>;
+}
+
+/**
+ * Do関数のオプション
+ */
+export interface DoOptions {
+  // 中断されると残りのステップを実行せず、チェーンをAbortedErrorで失敗させる
+  signal?: AbortSignalLike;
+}
+
+/**
+ * Do関数の型
+ * 初期値から始める呼び出しと、空のスコープから名前付きの束縛を始める`bind`/`let`を持つ
+ */
+export interface DoFunction {
+  <T, E = string>(initialValue: T): ResultChain<T, E>;
+  <T, E = string>(initialValue: T, options: DoOptions): ResultChain<T, E | AbortedError>;
+
+  /**
+   * 空のスコープにResult型を返す関数の成功値を名前付きで束縛して開始する
+   */
+  bind<K extends string, U, F = never>(
+    key: K,
+    fn: () => Result<U, F> | PromiseLike<Result<U, F>>
+  ): ResultChain<BindScope<EmptyScope, K, U>, F>;
+
+  /**
+   * 空のスコープに値を名前付きで束縛して開始する
+   * 計算関数が投げた例外は失敗になり、そのエラー型はmapErrorの戻り値の型（省略時はunknown）になる
+   */
+  let<K extends string, U, F = unknown>(
+    key: K,
+    fn: () => U,
+    ...mapError: ErrorMapperArg<F>
+  ): ResultChain<BindScope<EmptyScope, K, U>, F>;
+}
 
 /**
  * Result型のDo記法風の実装
  * 連続した操作を平坦化して記述できるようにする
  */
-export function Do<T, E = string>(initialValue: T): ResultChain<T, E> {
-  return new ResultChain(Promise.resolve(ok(initialValue)));
-}
+export const Do: DoFunction = Object.assign(
+  <T, E = string>(initialValue: T, options: DoOptions = {}): ResultChain<T, E | AbortedError> => {
+    const chain = new ResultChain<T, E>(Promise.resolve(ok(initialValue)));
+    return options.signal ? chain.withSignal(options.signal) : chain;
+  },
+  {
+    bind<K extends string, U, F = never>(
+      key: K,
+      fn: () => Result<U, F> | PromiseLike<Result<U, F>>
+    ): ResultChain<BindScope<EmptyScope, K, U>, F> {
+      return new ResultChain<EmptyScope, never>(Promise.resolve(ok({}))).bind(key, fn);
+    },
+
+    let<K extends string, U, F = unknown>(
+      key: K,
+      fn: () => U,
+      ...mapError: ErrorMapperArg<F>
+    ): ResultChain<BindScope<EmptyScope, K, U>, F> {
+      return new ResultChain<EmptyScope, never>(Promise.resolve(ok({}))).let(key, fn, ...mapError);
+    }
+  }
+);
 
 /**
  * Result型の操作をチェーンするためのクラス
+ * PromiseLikeなので`run()`を呼ばずに直接awaitできる
  */
-export class ResultChain<T, E = string> {
+export class ResultChain<T, E = string> implements PromiseLike<Result<T, E>> {
+  private cancellation?: Cancellation<E>;
+
   constructor(private readonly result: Promise<Result<T, E>>) {}
 
+  /**
+   * 中断されると残りのステップを実行せず、実行中のステップも待たずにAbortedErrorで失敗するチェーンにする
+   */
+  withSignal(signal: AbortSignalLike): ResultChain<T, E | AbortedError> {
+    return ResultChain.create<T, E | AbortedError>(this.result, {
+      signal,
+      toError: reason => new AbortedError(reason)
+    });
+  }
+
+  /**
+   * チェーンのシグナル（ステップのコールバックに渡す）
+   */
+  private get signal(): AbortSignalLike | undefined {
+    return this.cancellation?.signal;
+  }
+
+  private static create<T, E>(result: Promise<Result<T, E>>, cancellation?: Cancellation<E>): ResultChain<T, E> {
+    const chain = new ResultChain(result);
+    chain.cancellation = cancellation;
+    return chain;
+  }
+
+  /**
+   * エラーを変換するステップの後も、中断のエラーを同じ関数で変換してシグナルを引き継ぐ
+   */
+  private mapCancellation<F>(fn: (error: E) => F | PromiseLike<F>): Cancellation<F> | undefined {
+    const cancellation = this.cancellation;
+    if (!cancellation) {
+      return undefined;
+    }
+    const { signal, toError } = cancellation;
+    return { signal, toError: toError && (async reason => fn(await toError(reason))) };
+  }
+
+  /**
+   * 復旧するステップの後は中断を失敗として表せないため、シグナルはコールバックに渡すだけにする
+   */
+  private signalOnly<F>(): Cancellation<F> | undefined {
+    return this.cancellation && { signal: this.cancellation.signal };
+  }
+
+  /**
+   * 成功時に実行するステップを追加する
+   * 失敗はそのまま引き継ぎ、シグナルが中断されていればステップを実行せず、実行中に中断されれば完了を待たずに失敗させる
+   */
+  private step<U, F>(fn: (success: Success<T>) => Result<U, F> | PromiseLike<Result<U, F>>): ResultChain<U, E | F> {
+    const cancellation: Cancellation<E | F> | undefined = this.cancellation;
+    return ResultChain.create(
+      this.result.then<Result<U, E | F>>(r => {
+        if (!isOk(r)) {
+          return err(r.error);
+        }
+        if (!cancellation?.toError) {
+          return fn(r);
+        }
+        const { signal, toError } = cancellation;
+        return signal.aborted ? abortedFailure(signal, toError) : untilAborted(fn(r), signal, toError);
+      }),
+      cancellation
+    );
+  }
+
+  /**
+   * 成功・失敗を問わず結果全体を変換するステップを追加する
+   * 中断をどう失敗にするかはステップごとに異なるため、引き継ぐ内容は呼び出し側が決める
+   */
+  private pipe<U, F>(
+    fn: (r: Result<T, E>) => Result<U, F> | PromiseLike<Result<U, F>>,
+    cancellation?: Cancellation<F>
+  ): ResultChain<U, F> {
+    return ResultChain.create(this.result.then<Result<U, F>>(fn), cancellation);
+  }
+
   /**
    * 値を変換する
+   * 変換関数が投げた例外は失敗になり、そのエラー型はmapErrorの戻り値の型（省略時はunknown）になる
    */
-  map<U>(fn: (value: T) => U): ResultChain<U, E> {
-    return new ResultChain(this.result.then(r => r.map(fn)));
+  map<U, F = unknown>(fn: (value: T) => U, ...mapError: ErrorMapperArg<F>): ResultChain<U, E | F> {
+    return this.step<U, F>(r => {
+      try {
+        return ok(fn(r.data));
+      } catch (error) {
+        return err(mapThrown(error, mapError));
+      }
+    });
   }
 
   /**
-   * 非同期変換を行う
+   * 非同期変換を行う（チェーンのシグナルを受け取れる）
+   * 変換関数が拒否された場合は失敗になり、そのエラー型はmapErrorの戻り値の型（省略時はunknown）になる
    */
-  async<U>(fn: (value: T) => Promise<U>): ResultChain<U, E> {
-    return new ResultChain(this.result.then(r => r.map(fn)));
+  async<U, F = unknown>(
+    fn: (value: T, signal?: AbortSignalLike) => Promise<U>,
+    ...mapError: ErrorMapperArg<F>
+  ): ResultChain<U, E | F> {
+    return this.step<U, F>(async r => {
+      try {
+        return ok(await fn(r.data, this.signal));
+      } catch (error) {
+        return err(mapThrown(error, mapError));
+      }
+    });
   }
 
   /**
    * 条件によって失敗を返す
+   * 型ガードを渡すと成功値の型が絞り込まれ、エラーには値またはその値を受け取るファクトリ関数を指定できる
    */
-  ensure(predicate: (value: T) => boolean, errorMsg: E): ResultChain<T, E> {
-    return new ResultChain(
-      this.result.then(async r => {
-        if (isOk(r)) {
-          return predicate(r.data) ? r : err(errorMsg);
-        }
-        return r;
-      })
+  ensure<U extends T, F = E>(predicate: (value: T) => value is U, error: F | ((value: T) => F)): ResultChain<U, E | F>;
+  ensure<F = E>(predicate: (value: T) => boolean, error: F | ((value: T) => F)): ResultChain<T, E | F>;
+  ensure<F>(predicate: (value: T) => boolean, error: F | ((value: T) => F)): ResultChain<T, E | F> {
+    return this.step<T, F>(r => (predicate(r.data) ? r : err(resolveError(error, r.data))));
+  }
+
+  /**
+   * 非同期の条件によって失敗を返す（チェーンのシグナルを受け取れる）
+   */
+  ensureAsync<F = E>(
+    predicate: (value: T, signal?: AbortSignalLike) => Promise<boolean>,
+    error: F | ((value: T) => F)
+  ): ResultChain<T, E | F> {
+    return this.step<T, F>(async r =>
+      (await predicate(r.data, this.signal)) ? r : err(resolveError(error, r.data))
     );
   }
 
+  /**
+   * nullまたはundefinedの値を失敗に変換し、成功値の型からnullとundefinedを除く
+   */
+  fromNullable<F = E>(error: F | ((value: T) => F)): ResultChain<NonNullable<T>, E | F> {
+    return this.ensure((value): value is NonNullable<T> => value != null, error);
+  }
+
+  /**
+   * Zodスキーマで値を検証し、スキーマの出力型に変換する（非同期のrefineにも対応）
+   */
+  parse<S extends ZodSchemaLike>(schema: S): ResultChain<InferOutput<S>, E | InferSchemaError<S>> {
+    return this.chainAsync(value => parseAsyncWith(schema, value));
+  }
+
+  /**
+   * 独立した複数の検証を実行し、すべてのエラーをまとめて返す
+   */
+  validate<V extends Validators<T>>(
+    validators: V
+  ): ResultChain<SuccessValues<ValidatorResults<V>>, E | NonEmptyArray<FailureError<ValidatorResults<V>[keyof V]>>> {
+    return this.step(r => validate(r.data, validators));
+  }
+
   /**
    * 別のResult型を返す関数に変換する
    */
   chain<U, F = E>(fn: (value: T) => Result<U, F>): ResultChain<U, E | F> {
-    return new ResultChain(
-      this.result.then(async r => {
-        if (isOk(r)) {
-          const nextResult = fn(r.data);
-          return nextResult as Result<U, E | F>;
-        }
-        return r as Result<U, E | F>;
-      })
-    );
+    return this.step(r => fn(r.data));
   }
 
   /**
-   * 非同期でResult型を返す関数に変換する
+   * 非同期でResult型を返す関数に変換する（チェーンのシグナルを受け取れる）
    */
-  chainAsync<U, F = E>(fn: (value: T) => Promise<Result<U, F>>): ResultChain<U, E | F> {
-    return new ResultChain(
-      this.result.then(async r => {
-        if (isOk(r)) {
-          const nextResult = await fn(r.data);
-          return nextResult as Result<U, E | F>;
-        }
-        return r as Result<U, E | F>;
-      })
+  chainAsync<U, F = E>(fn: (value: T, signal?: AbortSignalLike) => PromiseLike<Result<U, F>>): ResultChain<U, E | F> {
+    return this.step(r => fn(r.data, this.signal));
+  }
+
+  /**
+   * スコープにResult型を返す関数（同期・非同期）の成功値を名前付きで束縛する（チェーンのシグナルを受け取れる）
+   */
+  bind<K extends string, U, F = never>(
+    key: Exclude<K, keyof T>,
+    fn: (scope: T, signal?: AbortSignalLike) => Result<U, F> | PromiseLike<Result<U, F>>
+  ): ResultChain<BindScope<T, K, U>, E | F> {
+    return this.step(async r => {
+      const bound = await fn(r.data, this.signal);
+      return isOk(bound) ? ok({ ...r.data, [key]: bound.data } as BindScope<T, K, U>) : err(bound.error);
+    });
+  }
+
+  /**
+   * スコープから計算した値を名前付きで束縛する
+   * 計算関数が投げた例外は失敗になり、そのエラー型はmapErrorの戻り値の型（省略時はunknown）になる
+   */
+  let<K extends string, U, F = unknown>(
+    key: Exclude<K, keyof T>,
+    fn: (scope: T) => U,
+    ...mapError: ErrorMapperArg<F>
+  ): ResultChain<BindScope<T, K, U>, E | F> {
+    return this.step<BindScope<T, K, U>, F>(r => {
+      try {
+        return ok({ ...r.data, [key]: fn(r.data) } as BindScope<T, K, U>);
+      } catch (error) {
+        return err(mapThrown(error, mapError));
+      }
+    });
+  }
+
+  /**
+   * 現在の値を名前付きで束縛したスコープに変換する
+   */
+  bindTo<K extends string>(key: K): ResultChain<BindScope<EmptyScope, K, T>, E> {
+    return this.step(r => ok({ [key]: r.data } as BindScope<EmptyScope, K, T>));
+  }
+
+  /**
+   * 非同期でResult型を返す関数を、成功するか試行回数を使い切るまで再試行する
+   * オプションでシグナルを指定しない場合はチェーンのシグナルで再試行を中断し、そのシグナルを各試行に渡す
+   */
+  retry<U, F>(
+    fn: (value: T, attempt: number, signal?: AbortSignalLike) => PromiseLike<Result<U, F>>,
+    options: RetryOptions<F>
+  ): ResultChain<U, E | F | RetryExhaustedError<F> | AbortedError> {
+    return this.chainAsync((value, signal) =>
+      retry((attempt, attemptSignal) => fn(value, attempt, attemptSignal), { signal, ...options })
     );
   }
 
+  /**
+   * 配列などの各要素にResult型を返す関数（同期・非同期）を同時実行数を制限して適用し、成功値を入力順の配列にする
+   * collectErrorsを指定するとすべての要素を処理し、失敗をすべて集める
+   * チェーンのシグナルが中断されると、残りの要素の処理を開始しない
+   */
+  traverse<A, U, F = never>(
+    this: ResultChain<Iterable<A>, E>,
+    fn: (item: A, index: number, signal?: AbortSignalLike) => Result<U, F> | PromiseLike<Result<U, F>>,
+    options: TraverseOptions & { collectErrors: true }
+  ): ResultChain<U[], E | NonEmptyArray<F>>;
+  traverse<A, U, F = never>(
+    this: ResultChain<Iterable<A>, E>,
+    fn: (item: A, index: number, signal?: AbortSignalLike) => Result<U, F> | PromiseLike<Result<U, F>>,
+    options?: TraverseOptions & { collectErrors?: false }
+  ): ResultChain<U[], E | F>;
+  traverse<A, U, F = never>(
+    this: ResultChain<Iterable<A>, E>,
+    fn: (item: A, index: number, signal?: AbortSignalLike) => Result<U, F> | PromiseLike<Result<U, F>>,
+    options?: TraverseOptions
+  ): ResultChain<U[], E | F | NonEmptyArray<F>>;
+  traverse<A, U, F = never>(
+    this: ResultChain<Iterable<A>, E>,
+    fn: (item: A, index: number, signal?: AbortSignalLike) => Result<U, F> | PromiseLike<Result<U, F>>,
+    options: TraverseOptions = {}
+  ): ResultChain<U[], E | F | NonEmptyArray<F> | AbortedError> {
+    const signal = this.signal;
+    return this.step(r => traverseUntilAborted(r.data, (item, index) => fn(item, index, signal), options, signal));
+  }
+
+  /**
+   * エラーを変換する
+   */
+  mapErr<F>(fn: (error: E) => F): ResultChain<T, F> {
+    return this.pipe(r => r.mapErr(fn), this.mapCancellation(fn));
+  }
+
+  /**
+   * 非同期でエラーを変換する
+   */
+  mapErrAsync<F>(fn: (error: E) => Promise<F>): ResultChain<T, F> {
+    return this.pipe(r => r.mapErrAsync(fn), this.mapCancellation(fn));
+  }
+
+  /**
+   * 失敗時に別のResult型を返す関数で復旧する
+   */
+  orElse<U = never, F = never>(fn: (error: E) => Result<U, F>): ResultChain<T | U, F> {
+    return this.pipe<T | U, F>(r => r.orElse(fn), this.signalOnly());
+  }
+
+  /**
+   * 失敗時に非同期でResult型を返す関数で復旧する
+   */
+  orElseAsync<U = never, F = never>(fn: (error: E) => Promise<Result<U, F>>): ResultChain<T | U, F> {
+    return this.pipe<T | U, F>(r => r.orElseAsync(fn), this.signalOnly());
+  }
+
+  /**
+   * 失敗時に代替値で成功に戻す
+   */
+  recover<U>(fn: (error: E) => U): ResultChain<T | U, never> {
+    return this.pipe<T | U, never>(r => r.recover(fn), this.signalOnly());
+  }
+
+  /**
+   * 失敗時に非同期で取得した代替値で成功に戻す
+   */
+  recoverAsync<U>(fn: (error: E) => Promise<U>): ResultChain<T | U, never> {
+    return this.pipe<T | U, never>(r => r.recoverAsync(fn), this.signalOnly());
+  }
+
+  /**
+   * 成功値で副作用を実行し、結果をそのまま引き継ぐ
+   * 副作用が例外を投げた場合はチェーン全体が拒否される（完了は待たないので、非同期の副作用にはtapAsyncを使う）
+   */
+  tap(fn: (value: T) => void): ResultChain<T, E> {
+    return this.step(r => r.tap(fn));
+  }
+
+  /**
+   * エラーで副作用を実行し、結果をそのまま引き継ぐ
+   * 副作用が例外を投げた場合はチェーン全体が拒否される（完了は待たない）
+   */
+  tapErr(fn: (error: E) => void): ResultChain<T, E> {
+    return this.pipe(r => r.tapErr(fn), this.cancellation);
+  }
+
+  /**
+   * 成功値で非同期の副作用を実行し、完了を待ってから結果をそのまま引き継ぐ
+   * 副作用が拒否された場合はチェーン全体が拒否される
+   */
+  tapAsync(fn: (value: T, signal?: AbortSignalLike) => unknown): ResultChain<T, E> {
+    return this.step(r => r.tapAsync(value => fn(value, this.signal)));
+  }
+
+  /**
+   * 成功・失敗それぞれのハンドラを実行して値を取り出す
+   */
+  async match<A, B>(handlers: {
+    ok: (value: T) => A | Promise<A>;
+    err: (error: E) => B | Promise<B>;
+  }): Promise<A | B> {
+    const r = await this.result;
+    return isOk(r) ? handlers.ok(r.data) : handlers.err(r.error);
+  }
+
+  /**
+   * 判別可能なエラーのユニオンをタグごとのハンドラで網羅的に処理する
+   */
+  async matchTag<K extends keyof E, A, H extends TagHandlers<E, K>>(
+    key: K,
+    handlers: { ok: (value: T) => A | Promise<A>; err: H }
+  ): Promise<A | Awaited<TagHandlerResult<H>>> {
+    const r = await this.result;
+    if (isOk(r)) {
+      return handlers.ok(r.data);
+    }
+    return dispatchTag<H, Awaited<TagHandlerResult<H>>>(handlers.err, r.error[key], r.error);
+  }
+
+  /**
+   * 成功値を取り出す（失敗時はUnwrapErrorで拒否される）
+   */
+  async unwrap(): Promise<T> {
+    return (await this.result).unwrap();
+  }
+
+  /**
+   * 成功値を取り出す（失敗時はデフォルト値）
+   */
+  async unwrapOr<U>(defaultValue: U): Promise<T | U> {
+    return (await this.result).unwrapOr(defaultValue);
+  }
+
+  /**
+   * 成功値を取り出す（失敗時はエラーから値を計算する）
+   */
+  async unwrapOrElse<U>(fn: (error: E) => U | Promise<U>): Promise<T | U> {
+    return (await this.result).unwrapOrElse(fn);
+  }
+
+  /**
+   * 成功値を取り出す（失敗時は指定したメッセージのUnwrapErrorで拒否される）
+   */
+  async expect(message: string): Promise<T> {
+    return (await this.result).expect(message);
+  }
+
+  /**
+   * エラーを取り出す（成功時はUnwrapErrorで拒否される）
+   */
+  async unwrapErr(): Promise<E> {
+    return (await this.result).unwrapErr();
+  }
+
   /**
    * 最終的な結果を取得する
    */
   async run(): Promise<Result<T, E>> {
     return this.result;
   }
+
+  /**
+   * 最終的な結果でPromiseを解決する（`await chain`で`run()`と同じ結果を得られる）
+   */
+  then<A = Result<T, E>, B = never>(
+    onfulfilled?: ((value: Result<T, E>) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null
+  ): Promise<A | B> {
+    return this.result.then(onfulfilled, onrejected);
+  }
+}
+
+/**
+ * エラーの値、またはファクトリ関数に値を渡して作ったエラーを返す
+ */
+function resolveError<T, F>(error: F | ((value: T) => F), value: T): F {
+  return typeof error === 'function' ? (error as (value: T) => F)(value) : error;
+}
+
+/**
+ * 中断の理由から作ったエラーで失敗する
+ */
+async function abortedFailure<F>(
+  signal: AbortSignalLike,
+  toError: (reason: unknown) => F | PromiseLike<F>
+): Promise<Result<never, F>> {
+  return err(await toError(signal.reason));
+}
+
+/**
+ * 実行中のステップの完了を待つが、先にシグナルが中断されれば中断のエラーで失敗する
+ */
+function untilAborted<U, F>(
+  step: Result<U, F> | PromiseLike<Result<U, F>>,
+  signal: AbortSignalLike,
+  toError: (reason: unknown) => F | PromiseLike<F>
+): Promise<Result<U, F>> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => resolve(abortedFailure(signal, toError));
+    signal.addEventListener('abort', onAbort, { once: true });
+    Promise.resolve(step).then(
+      result => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(result);
+      },
+      (reason: unknown) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(reason);
+      }
+    );
+  });
 }
@@ -0,0 +1,208 @@
+/**
+ * Error classes thrown or returned by the library
+ */
+
+import type { TagHandlers, TagHandlerResult } from './types.js';
+import { dispatchTag } from './match.js';
+
+/**
+ * Thrown when a value is extracted from the wrong case of a Result
+ * (e.g. `unwrap()` on a Failure). `error` holds what the Result actually
+ * contained: the Failure's error, or the Success's value for `unwrapErr()`.
+ */
+export class UnwrapError<E = unknown> extends Error {
+  constructor(message: string, readonly error: E) {
+    super(message);
+    this.name = 'UnwrapError';
+  }
+}
+
+/**
+ * Returned by retry when every attempt failed.
+ * `errors` holds the error of each attempt in order.
+ */
+export class RetryExhaustedError<E = unknown> extends Error {
+  constructor(readonly errors: E[]) {
+    super(`Gave up after ${errors.length} failed attempt${errors.length === 1 ? '' : 's'}`);
+    this.name = 'RetryExhaustedError';
+  }
+
+  // Error of the final attempt
+  get lastError(): E | undefined {
+    return this.errors[this.errors.length - 1];
+  }
+}
+
+/**
+ * Returned by firstOk and raceOk when no source succeeded.
+ * `errors` holds the error of each source in input order.
+ */
+export class AllFailedError<E = unknown> extends Error {
+  constructor(readonly errors: E[]) {
+    super(`All ${errors.length} source${errors.length === 1 ? '' : 's'} failed`);
+    this.name = 'AllFailedError';
+  }
+}
+
+/**
+ * Returned by withTimeout when the operation did not settle in time
+ */
+export class TimeoutError extends Error {
+  constructor(readonly ms: number) {
+    super(`Timed out after ${ms}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Returned by a ResultChain or retry whose AbortSignal was aborted before it finished.
+ * `reason` is the signal's abort reason.
+ */
+export class AbortedError extends Error {
+  constructor(readonly reason: unknown) {
+    super('The operation was aborted');
+    this.name = 'AbortedError';
+  }
+}
+
+/**
+ * Context of an error that carries no details
+ */
+export type EmptyContext = Record<never, never>;
+
+/**
+ * Options accepted by AppError besides its tag and context
+ */
+export interface AppErrorOptions {
+  message?: string;
+  code?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for structured domain errors.
+ * `_tag` discriminates error unions (see matchTag), `code` is a stable
+ * identifier that defaults to the tag, `context` carries typed details and
+ * `cause` chains the underlying error the way ES2022 `Error.cause` does.
+ */
+export class AppError<Tag extends string = string, Context = EmptyContext> extends Error {
+  readonly code: string;
+  declare readonly cause?: unknown;
+
+  constructor(readonly _tag: Tag, readonly context: Context, options: AppErrorOptions = {}) {
+    super(options.message ?? _tag);
+    this.name = _tag;
+    this.code = options.code ?? _tag;
+    if ('cause' in options) {
+      Object.defineProperty(this, 'cause', { value: options.cause, writable: true, configurable: true });
+    }
+  }
+}
+
+/**
+ * Constructor arguments of a tagged error class: the context may be left out
+ * when it has no required fields
+ */
+export type TaggedErrorArgs<Context> = EmptyContext extends Context
+  ? [context?: Context, options?: AppErrorOptions]
+  : [context: Context, options?: AppErrorOptions];
+
+/**
+ * Base class returned by TaggedError
+ */
+export interface TaggedErrorClass<Tag extends string> {
+  new <Context extends object = EmptyContext>(...args: TaggedErrorArgs<Context>): AppError<Tag, Context>;
+  readonly tag: Tag;
+  // Type guard for instances of the class it is called on
+  is<T>(this: abstract new (...args: never[]) => T, value: unknown): value is T;
+}
+
+/**
+ * Creates a base class for an AppError with a fixed tag:
+ * `class NotFound extends TaggedError('NotFound')<{ id: string }> {}`
+ */
+export function TaggedError<Tag extends string>(tag: Tag): TaggedErrorClass<Tag> {
+  return class extends AppError<Tag, object> {
+    static readonly tag = tag;
+
+    constructor(context: object = {}, options?: AppErrorOptions) {
+      super(tag, context, options);
+    }
+
+    static is(value: unknown): boolean {
+      return value instanceof this;
+    }
+  } as unknown as TaggedErrorClass<Tag>;
+}
+
+/**
+ * What an error factory passed to defineErrors returns
+ */
+export interface ErrorSpec<Context = unknown> extends AppErrorOptions {
+  context?: Context;
+}
+
+type ErrorFactory = (...args: never[]) => ErrorSpec;
+
+// Names taken by the helpers of ErrorDefinitions, which cannot be used as tags
+const reservedTags = ['is', 'match'] as const;
+type ReservedTag = (typeof reservedTags)[number];
+
+type SpecContext<S> = S extends { context: infer C } ? C : EmptyContext;
+
+/**
+ * Constructor function created by defineErrors for one tag, with its type guard
+ */
+export type TaggedErrorFactory<Tag extends string, F> = F extends (...args: infer A) => infer S
+  ? ((...args: A) => AppError<Tag, SpecContext<S>>) & { is(value: unknown): value is AppError<Tag, SpecContext<S>> }
+  : never;
+
+type FactoryErrors<D> = {
+  [K in keyof D & string]: ReturnType<TaggedErrorFactory<K, D[K]>>;
+}[keyof D & string];
+
+/**
+ * Constructors, type guard and exhaustive matcher for an error union
+ */
+export type ErrorDefinitions<D> = { readonly [K in keyof D & string]: TaggedErrorFactory<K, D[K]> } & {
+  // Type guard for any error of the union
+  is(value: unknown): value is FactoryErrors<D>;
+  // Run the handler registered for the error's tag
+  match<H extends TagHandlers<FactoryErrors<D>, '_tag'>>(error: FactoryErrors<D>, handlers: H): TagHandlerResult<H>;
+};
+
+/**
+ * Error union of an ErrorDefinitions object: `type UserError = DefinedErrors<typeof UserError>`
+ */
+export type DefinedErrors<T> = {
+  [K in Exclude<keyof T, ReservedTag>]: T[K] extends (...args: never[]) => infer R ? R : never;
+}[Exclude<keyof T, ReservedTag>];
+
+/**
+ * Defines an error union once from one factory per tag. Each factory maps
+ * its arguments to the message, context, code and cause of the error.
+ * Throws a TypeError if a tag is named `is` or `match`.
+ */
+export function defineErrors<D extends Record<string, ErrorFactory> & { [K in ReservedTag]?: never }>(
+  factories: D
+): ErrorDefinitions<D> {
+  const tags = Object.keys(factories);
+  const reserved = tags.find(tag => (reservedTags as readonly string[]).includes(tag));
+  if (reserved !== undefined) {
+    throw new TypeError(`"${reserved}" is reserved by defineErrors and cannot be used as a tag`);
+  }
+  const isTagged = (value: unknown, tag: string) => value instanceof AppError && value._tag === tag;
+  const constructors = tags.map(tag => {
+    const create = (...args: never[]) => {
+      const { context, ...options } = factories[tag](...args);
+      return new AppError(tag, context ?? {}, options);
+    };
+    return [tag, Object.assign(create, { is: (value: unknown) => isTagged(value, tag) })];
+  });
+
+  return {
+    ...Object.fromEntries(constructors),
+    is: (value: unknown) => tags.some(tag => isTagged(value, tag)),
+    match: (error: AppError, handlers: unknown) => dispatchTag(handlers, error._tag, error)
+  } as unknown as ErrorDefinitions<D>;
+}
@@ -0,0 +1,32 @@
+/**
+ * Filtering helpers for Result types
+ */
+
+import type { AnyResult, Result, SuccessValue, FailureError } from './types.js';
+import { err } from './result.js';
+
+/**
+ * Turns a success whose value fails `predicate` into a Failure built by `onFalse`.
+ * A type-guard predicate narrows the success type; failures pass through unchanged.
+ */
+export function filterOrElse<R extends AnyResult, U extends SuccessValue<R>, F>(
+  result: R,
+  predicate: (value: SuccessValue<R>) => value is U,
+  onFalse: (value: SuccessValue<R>) => F
+): Result<U, FailureError<R> | F>;
+export function filterOrElse<R extends AnyResult, F>(
+  result: R,
+  predicate: (value: SuccessValue<R>) => boolean,
+  onFalse: (value: SuccessValue<R>) => F
+): Result<SuccessValue<R>, FailureError<R> | F>;
+export function filterOrElse<R extends AnyResult, F>(
+  result: R,
+  predicate: (value: SuccessValue<R>) => boolean,
+  onFalse: (value: SuccessValue<R>) => F
+): Result<SuccessValue<R>, FailureError<R> | F> {
+  if (!result.success) {
+    return result as Result<never, FailureError<R>>;
+  }
+  const value = result.data as SuccessValue<R>;
+  return predicate(value) ? (result as Result<SuccessValue<R>, never>) : err(onFalse(value));
+}
@@ -0,0 +1,45 @@
+/**
+ * Generator-based do-notation for Result types
+ */
+
+import type { AnyResult, Failure, Result, SuccessValue, FailureError } from './types.js';
+
+/**
+ * Runs a generator in which `yield* result` evaluates to the success value of
+ * `result`, or ends the whole computation with its failure.
+ * The error type is the union of every yielded and returned Result's error.
+ * An async generator may be passed as well; the Result is then returned as a Promise.
+ */
+export function gen<Y extends Failure<unknown>, R extends AnyResult>(
+  body: () => Generator<Y, R, unknown>
+): Result<SuccessValue<R>, FailureError<Y> | FailureError<R>>;
+export function gen<Y extends Failure<unknown>, R extends AnyResult>(
+  body: () => AsyncGenerator<Y, R, unknown>
+): Promise<Result<SuccessValue<R>, FailureError<Y> | FailureError<R>>>;
+export function gen(
+  body: () => Generator<AnyResult, AnyResult, unknown> | AsyncGenerator<AnyResult, AnyResult, unknown>
+): AnyResult | Promise<AnyResult> {
+  const generator = body();
+  if (Symbol.asyncIterator in generator) {
+    return runAsync(generator);
+  }
+  const step = generator.next();
+  if (!step.done) {
+    // Let the generator run its finally blocks before handing back the failure
+    generator.return(step.value);
+  }
+  return step.value;
+}
+
+/**
+ * Alias for gen
+ */
+export const safeTry = gen;
+
+async function runAsync(generator: AsyncGenerator<AnyResult, AnyResult, unknown>): Promise<AnyResult> {
+  const step = await generator.next();
+  if (!step.done) {
+    await generator.return(step.value);
+  }
+  return step.value;
+}
@@ -1,19 +1,36 @@
 /**
- * Type guard functions for Result types
+ * Type guard functions for Result and Option types
  */
 
-import type { Result, Success, Failure } from './types.js';
+import type { AnyResult, Option } from './types.js';
 
 /**
  * Type guard to check if a Result is a Success
+ *
+ * Generic over the whole Result so that unions produced by chaining
+ * (e.g. `Success<T> | Failure<A> | Failure<B>`) narrow without losing error types.
  */
-export function isOk<T, E>(result: Result<T, E>): result is Success<T> {
+export function isOk<R extends AnyResult>(result: R): result is Extract<R, { success: true }> {
   return result.success;
 }
 
 /**
  * Type guard to check if a Result is a Failure
  */
-export function isErr<T, E>(result: Result<T, E>): result is Failure<E> {
+export function isErr<R extends AnyResult>(result: R): result is Extract<R, { success: false }> {
   return !result.success;
 }
+
+/**
+ * Type guard to check if an Option is Some
+ */
+export function isSome<O extends Option<unknown>>(option: O): option is Extract<O, { some: true }> {
+  return option.some;
+}
+
+/**
+ * Type guard to check if an Option is None
+ */
+export function isNone<O extends Option<unknown>>(option: O): option is Extract<O, { some: false }> {
+  return !option.some;
+}
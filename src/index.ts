@@ -8,20 +8,83 @@
 // Core Result types
 export type { Result } from './types.js';
 export type { Success, Failure } from './types.js';
+export type { AnyResult, FlattenResult, ErrorMapperArg } from './types.js';
+export type { SuccessValue, FailureError, MatchHandlers, TagHandlers, TagHandlerResult } from './types.js';
+export type { SuccessValues, AsyncResultSource, SourceResult } from './types.js';
+export type { NonEmptyArray, Validators, ValidatorResults } from './types.js';
+
+// Option types
+export type { Option, Some, None, OptionMatchHandlers } from './types.js';
 
 // Result creation functions
 export { ok, err } from './result.js';
 
+// Option creation functions
+export { some, none, fromNullable } from './option.js';
+
+// Error classes
+export { UnwrapError } from './errors.js';
+export { AppError, TaggedError, defineErrors } from './errors.js';
+export { RetryExhaustedError, TimeoutError, AbortedError, AllFailedError } from './errors.js';
+export type { AppErrorOptions, EmptyContext, TaggedErrorArgs, TaggedErrorClass } from './errors.js';
+export type { ErrorSpec, TaggedErrorFactory, ErrorDefinitions, DefinedErrors } from './errors.js';
+
 // Type guards
 export { isOk, isErr } from './guards.js';
+export { isSome, isNone } from './guards.js';
+
+// Pattern matching
+export { matchTag } from './match.js';
+
+// Filtering
+export { filterOrElse } from './filter.js';
+
+// Collection combinators
+export { all, allAsync, combine } from './combinators.js';
+export { allWithErrors, combineWithErrors, validate } from './combinators.js';
+export { traverse, traverseAsync, mapConcurrent } from './combinators.js';
+export { partition, partitionWithIndex } from './combinators.js';
+export type { AllAsyncOptions, TraverseOptions, Partitioned, IndexedError } from './combinators.js';
+
+// First success wins
+export { firstOk, raceOk } from './race.js';
+
+// Retrying
+export { retry } from './retry.js';
+export type { RetryOptions, Backoff } from './retry.js';
+
+// Timeouts and cancellation
+export { withTimeout } from './timeout.js';
+export type { AbortSignalLike, MinimalAbortSignal } from './timers.js';
+
+// Async results
+export { AsyncResult } from './async-result.js';
+export type { AsyncResultInput } from './async-result.js';
 
 // Utility functions
-export { fromPromise, toPromise } from './utils.js';
+export { fromPromise, settleAsync, toPromise } from './utils.js';
+export { tryCatch, fromThrowable } from './utils.js';
 export { mapPromiseResult, mapAsyncPromiseResult } from './utils.js';
 
 // Do notation and chaining
 export { Do } from './do-notation.js';
 export { ResultChain } from './do-notation.js';
+export type { DoFunction, DoOptions } from './do-notation.js';
+export type { BindScope } from './types.js';
+
+// Pipelines
+export { pipeline, Pipeline } from './pipeline.js';
+export type { PipelineRunOptions } from './pipeline.js';
+
+// Generator do-notation
+export { gen, safeTry } from './gen.js';
 
 // Zod integration helpers
-export { zodToResult } from './zod-helpers.js';
+export { zodToResult, parseWith, parseAsyncWith, flattenZodError } from './zod-helpers.js';
+export type { SafeParseLike, ZodIssueLike, ZodErrorLike, ZodSchemaLike } from './zod-helpers.js';
+export type { InferOutput, InferSchemaError, FieldError } from './zod-helpers.js';
+
+// Standard Schema integration helpers
+export { schemaToResult, schemaToResultAsync } from './standard-schema.js';
+export type { StandardSchema, StandardSchemaProps, StandardSchemaResult } from './standard-schema.js';
+export type { StandardSchemaIssue, StandardSchemaOutput, SyncStandardSchema } from './standard-schema.js';
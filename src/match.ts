@@ -0,0 +1,35 @@
+/**
+ * Pattern matching helpers for Result types
+ */
+
+import type { AnyResult, SuccessValue, FailureError, TagHandlers, TagHandlerResult } from './types.js';
+
+/**
+ * Matches a Result whose error is a discriminated union.
+ * Each error kind, identified by the value of its `key` field, gets its own
+ * handler; leaving one out is a compile-time error.
+ */
+export function matchTag<
+  R extends AnyResult,
+  K extends keyof FailureError<R>,
+  A,
+  H extends TagHandlers<FailureError<R>, K>
+>(
+  result: R,
+  key: K,
+  handlers: { ok: (data: SuccessValue<R>) => A; err: H }
+): A | TagHandlerResult<H> {
+  if (result.success) {
+    return handlers.ok(result.data as SuccessValue<R>);
+  }
+  const error = result.error as FailureError<R>;
+  return dispatchTag(handlers.err, error[key], error);
+}
+
+/**
+ * Calls the handler registered for `tag`
+ */
+export function dispatchTag<H, Out = TagHandlerResult<H>>(handlers: H, tag: unknown, error: unknown): Out {
+  const handler = (handlers as Record<PropertyKey, (error: unknown) => Out>)[tag as PropertyKey];
+  return handler(error);
+}
@@ -0,0 +1,24 @@
+/**
+ * Option creation functions (implemented alongside Result in core.ts)
+ */
+
+import type { Option, Result } from './types.js';
+import { ok, err, some, none } from './core.js';
+
+export { some, none } from './core.js';
+
+/**
+ * Converts a possibly null or undefined value to an Option,
+ * or to a Result failing with `error` when it is given
+ */
+export function fromNullable<T>(value: T): Option<NonNullable<T>>;
+export function fromNullable<T, E>(value: T, error: E): Result<NonNullable<T>, E>;
+export function fromNullable<T, E>(
+  value: T,
+  ...error: [] | [E]
+): Option<NonNullable<T>> | Result<NonNullable<T>, E> {
+  if (error.length === 0) {
+    return value == null ? none : some(value);
+  }
+  return value == null ? err(error[0]) : ok(value);
+}
@@ -0,0 +1,187 @@
+/**
+ * Lazy, re-runnable pipelines built on ResultChain
+ */
+
+import type { Result, BindScope, ErrorMapperArg } from './types.js';
+import { ok } from './result.js';
+import { ResultChain } from './do-notation.js';
+import type { AbortedError } from './errors.js';
+import type { AbortSignalLike } from './timers.js';
+
+/**
+ * パイプラインを実行するときのオプション
+ */
+export interface PipelineRunOptions {
+  // チェーンに渡され、中断されると残りのステップを実行せずAbortedErrorで失敗させる
+  signal?: AbortSignalLike;
+}
+
+/**
+ * 入力を受け取ってから実行されるResultChainの定義
+ * ステップを追加しても実行されず、`run`または`compile`した関数を呼ぶたびに最初から実行される
+ */
+export class Pipeline<I, T, E = string> {
+  constructor(private readonly build: (input: I, signal?: AbortSignalLike) => ResultChain<T, E>) {}
+
+  /**
+   * ResultChainに対する任意の操作をステップとして追加する
+   */
+  pipe<U, F>(fn: (chain: ResultChain<T, E>) => ResultChain<U, F>): Pipeline<I, U, F> {
+    const build = this.build;
+    return new Pipeline((input, signal) => fn(build(input, signal)));
+  }
+
+  /**
+   * 値を変換する（例外のエラー型はmapErrorの戻り値の型、省略時はunknown）
+   */
+  map<U, F = unknown>(fn: (value: T) => U, ...mapError: ErrorMapperArg<F>): Pipeline<I, U, E | F> {
+    return this.pipe(chain => chain.map(fn, ...mapError));
+  }
+
+  /**
+   * 非同期変換を行う（拒否のエラー型はmapErrorの戻り値の型、省略時はunknown）
+   */
+  async<U, F = unknown>(
+    fn: (value: T, signal?: AbortSignalLike) => Promise<U>,
+    ...mapError: ErrorMapperArg<F>
+  ): Pipeline<I, U, E | F> {
+    return this.pipe(chain => chain.async(fn, ...mapError));
+  }
+
+  /**
+   * 条件によって失敗を返す
+   * 型ガードを渡すと成功値の型が絞り込まれ、エラーには値またはその値を受け取るファクトリ関数を指定できる
+   */
+  ensure<U extends T, F = E>(predicate: (value: T) => value is U, error: F | ((value: T) => F)): Pipeline<I, U, E | F>;
+  ensure<F = E>(predicate: (value: T) => boolean, error: F | ((value: T) => F)): Pipeline<I, T, E | F>;
+  ensure<F>(predicate: (value: T) => boolean, error: F | ((value: T) => F)): Pipeline<I, T, E | F> {
+    return this.pipe(chain => chain.ensure(predicate, error));
+  }
+
+  /**
+   * 非同期の条件によって失敗を返す
+   */
+  ensureAsync<F = E>(
+    predicate: (value: T, signal?: AbortSignalLike) => Promise<boolean>,
+    error: F | ((value: T) => F)
+  ): Pipeline<I, T, E | F> {
+    return this.pipe(chain => chain.ensureAsync(predicate, error));
+  }
+
+  /**
+   * 別のResult型を返す関数に変換する
+   */
+  chain<U, F = E>(fn: (value: T) => Result<U, F>): Pipeline<I, U, E | F> {
+    return this.pipe(chain => chain.chain(fn));
+  }
+
+  /**
+   * 非同期でResult型を返す関数に変換する
+   */
+  chainAsync<U, F = E>(fn: (value: T, signal?: AbortSignalLike) => PromiseLike<Result<U, F>>): Pipeline<I, U, E | F> {
+    return this.pipe(chain => chain.chainAsync(fn));
+  }
+
+  /**
+   * スコープにResult型を返す関数（同期・非同期）の成功値を名前付きで束縛する
+   */
+  bind<K extends string, U, F = never>(
+    key: Exclude<K, keyof T>,
+    fn: (scope: T, signal?: AbortSignalLike) => Result<U, F> | PromiseLike<Result<U, F>>
+  ): Pipeline<I, BindScope<T, K, U>, E | F> {
+    return this.pipe(chain => chain.bind(key, fn));
+  }
+
+  /**
+   * スコープから計算した値を名前付きで束縛する（例外のエラー型はmapErrorの戻り値の型、省略時はunknown）
+   */
+  let<K extends string, U, F = unknown>(
+    key: Exclude<K, keyof T>,
+    fn: (scope: T) => U,
+    ...mapError: ErrorMapperArg<F>
+  ): Pipeline<I, BindScope<T, K, U>, E | F> {
+    return this.pipe(chain => chain.let(key, fn, ...mapError));
+  }
+
+  /**
+   * 別のパイプラインに成功値を渡して続けて実行する（実行時のシグナルも渡す）
+   */
+  through<U, F>(next: Pipeline<T, U, F>): Pipeline<I, U, E | F> {
+    return this.chainAsync((value, signal) => next.run(value, { signal }));
+  }
+
+  /**
+   * エラーを変換する
+   */
+  mapErr<F>(fn: (error: E) => F): Pipeline<I, T, F> {
+    return this.pipe(chain => chain.mapErr(fn));
+  }
+
+  /**
+   * 失敗時に別のResult型を返す関数で復旧する
+   */
+  orElse<U = never, F = never>(fn: (error: E) => Result<U, F>): Pipeline<I, T | U, F> {
+    return this.pipe(chain => chain.orElse(fn));
+  }
+
+  /**
+   * 失敗時に非同期でResult型を返す関数で復旧する
+   */
+  orElseAsync<U = never, F = never>(fn: (error: E) => Promise<Result<U, F>>): Pipeline<I, T | U, F> {
+    return this.pipe(chain => chain.orElseAsync(fn));
+  }
+
+  /**
+   * 失敗時に代替値で成功に戻す
+   */
+  recover<U>(fn: (error: E) => U): Pipeline<I, T | U, never> {
+    return this.pipe(chain => chain.recover(fn));
+  }
+
+  /**
+   * 成功値で副作用を実行し、結果をそのまま引き継ぐ（完了は待たないので、非同期の副作用にはtapAsyncを使う）
+   */
+  tap(fn: (value: T) => void): Pipeline<I, T, E> {
+    return this.pipe(chain => chain.tap(fn));
+  }
+
+  /**
+   * エラーで副作用を実行し、結果をそのまま引き継ぐ
+   */
+  tapErr(fn: (error: E) => void): Pipeline<I, T, E> {
+    return this.pipe(chain => chain.tapErr(fn));
+  }
+
+  /**
+   * 成功値で非同期の副作用を実行し、完了を待ってから結果をそのまま引き継ぐ
+   */
+  tapAsync(fn: (value: T, signal?: AbortSignalLike) => unknown): Pipeline<I, T, E> {
+    return this.pipe(chain => chain.tapAsync(fn));
+  }
+
+  /**
+   * 入力を渡してパイプラインを実行する
+   */
+  run(input: I, options: PipelineRunOptions = {}): Promise<Result<T, E>> {
+    return this.build(input, options.signal).run();
+  }
+
+  /**
+   * 何度でも呼び出せる関数に変換する
+   * シグナルを第2引数に受け取るので、そのままchainAsyncなどのステップとして使える
+   */
+  compile(): (input: I, signal?: AbortSignalLike) => Promise<Result<T, E>> {
+    return (input, signal) => this.run(input, { signal });
+  }
+}
+
+/**
+ * 入力の型を指定してパイプラインの定義を開始する
+ * Doと同様にエラー型の既定値はstringで、実行時にシグナルを渡せるためエラー型にAbortedErrorが加わる
+ */
+export function pipeline<I, E = string>(): Pipeline<I, I, E | AbortedError> {
+  return new Pipeline((input, signal) => {
+    const chain = new ResultChain<I, E>(Promise.resolve(ok(input)));
+    return signal ? chain.withSignal(signal) : chain;
+  });
+}
@@ -0,0 +1,84 @@
+/**
+ * "First success wins" combinators over Results
+ */
+
+import type { Result, AnyResult, SuccessValue, FailureError } from './types.js';
+import { ok, err } from './result.js';
+import { AllFailedError } from './errors.js';
+import { AsyncResult } from './async-result.js';
+import { createAbortController } from './timers.js';
+import type { AbortSignalLike } from './timers.js';
+
+/**
+ * Returns the value of the first Success, or an AllFailedError holding every
+ * error if there is none. Iteration stops at the first Success, so a lazy
+ * iterable (e.g. a generator) only evaluates the fallbacks it needs.
+ */
+export function firstOk<R extends AnyResult>(
+  results: Iterable<R>
+): Result<SuccessValue<R>, AllFailedError<FailureError<R>>> {
+  const errors: FailureError<R>[] = [];
+  for (const result of results) {
+    if (result.success) {
+      return ok(result.data as SuccessValue<R>);
+    }
+    errors.push(result.error as FailureError<R>);
+  }
+  return err(new AllFailedError(errors));
+}
+
+/**
+ * Starts every source at once and resolves with the first Success, aborting
+ * the signal handed to the others. Fails with an AllFailedError holding every
+ * error in input order only if all sources fail; rejects if a source rejects.
+ */
+export function raceOk<T, E>(
+  sources: Iterable<(signal: AbortSignalLike) => PromiseLike<Result<T, E>>>
+): AsyncResult<T, AllFailedError<E>> {
+  return new AsyncResult(runRace(Array.from(sources)));
+}
+
+function runRace<T, E>(
+  list: ((signal: AbortSignalLike) => PromiseLike<Result<T, E>>)[]
+): Promise<Result<T, AllFailedError<E>>> {
+  const controller = createAbortController();
+
+  return new Promise((resolve, reject) => {
+    const errors: E[] = new Array(list.length);
+    let remaining = list.length;
+    let settled = false;
+
+    if (remaining === 0) {
+      resolve(err(new AllFailedError(errors)));
+      return;
+    }
+
+    list.forEach((source, index) => {
+      Promise.resolve()
+        .then(() => source(controller.signal))
+        .then(
+          result => {
+            if (settled) return;
+            if (result.success) {
+              settled = true;
+              controller.abort();
+              resolve(ok(result.data));
+              return;
+            }
+            errors[index] = result.error;
+            remaining--;
+            if (remaining === 0) {
+              settled = true;
+              resolve(err(new AllFailedError(errors)));
+            }
+          },
+          error => {
+            if (settled) return;
+            settled = true;
+            controller.abort(error);
+            reject(error);
+          }
+        );
+    });
+  });
+}
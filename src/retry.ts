@@ -0,0 +1,103 @@
+/**
+ * Retrying of async Result-producing functions
+ */
+
+import type { Result } from './types.js';
+import { err } from './result.js';
+import { AsyncResult } from './async-result.js';
+import { RetryExhaustedError, AbortedError } from './errors.js';
+import { sleep } from './timers.js';
+import type { AbortSignalLike } from './timers.js';
+
+/**
+ * How long to wait before the attempt following failed attempt `attempt` (1-based)
+ */
+export type Backoff = 'exponential' | 'linear' | ((attempt: number) => number);
+
+/**
+ * Options for retry
+ */
+export interface RetryOptions<E> {
+  // Total number of attempts, including the first one
+  attempts: number;
+  // Delay strategy between attempts (default: exponential)
+  backoff?: Backoff;
+  // Base delay in milliseconds for the built-in strategies (default: 100)
+  delay?: number;
+  // Upper bound for a single delay in milliseconds
+  maxDelay?: number;
+  // Randomize each delay between 0 and its computed value
+  jitter?: boolean;
+  // Whether a failed attempt should be retried (default: always)
+  shouldRetry?: (error: E, attempt: number) => boolean;
+  // Stops retrying once aborted; also passed to each attempt
+  signal?: AbortSignalLike;
+}
+
+/**
+ * Calls `fn` until it succeeds or the attempts run out.
+ * An error rejected by `shouldRetry` is returned as-is, and running out of
+ * attempts fails with a RetryExhaustedError holding the error of every attempt.
+ * Once `signal` is aborted no further attempt is made, and a failed attempt
+ * is reported as an AbortedError instead.
+ * Rejects with a RangeError if `attempts` is not an integer >= 1 or Infinity,
+ * or if `delay` or `maxDelay` is negative.
+ */
+export function retry<T, E>(
+  fn: (attempt: number, signal?: AbortSignalLike) => PromiseLike<Result<T, E>>,
+  options: RetryOptions<E>
+): AsyncResult<T, E | RetryExhaustedError<E> | AbortedError> {
+  const { attempts, delay = 100, maxDelay = Infinity } = options;
+  if (attempts !== Infinity && !(Number.isInteger(attempts) && attempts >= 1)) {
+    return new AsyncResult(
+      Promise.reject(new RangeError(`attempts must be an integer >= 1 or Infinity, got ${attempts}`))
+    );
+  }
+  if (!(delay >= 0) || !(maxDelay >= 0)) {
+    return new AsyncResult(
+      Promise.reject(new RangeError(`delay and maxDelay must be >= 0, got ${delay} and ${maxDelay}`))
+    );
+  }
+  return new AsyncResult(runAttempts(fn, options));
+}
+
+async function runAttempts<T, E>(
+  fn: (attempt: number, signal?: AbortSignalLike) => PromiseLike<Result<T, E>>,
+  options: RetryOptions<E>
+): Promise<Result<T, E | RetryExhaustedError<E> | AbortedError>> {
+  const { attempts, shouldRetry = () => true, signal } = options;
+  const errors: E[] = [];
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    if (signal?.aborted) {
+      return err(new AbortedError(signal.reason));
+    }
+    const result = await fn(attempt, signal);
+    if (result.success) {
+      return result;
+    }
+    if (signal?.aborted) {
+      return err(new AbortedError(signal.reason));
+    }
+    errors.push(result.error);
+    if (!shouldRetry(result.error, attempt)) {
+      return result;
+    }
+    if (attempt < attempts) {
+      await sleep(backoffDelay(options, attempt), signal);
+    }
+  }
+
+  return err(new RetryExhaustedError(errors));
+}
+
+function backoffDelay(
+  options: Pick<RetryOptions<unknown>, 'backoff' | 'delay' | 'maxDelay' | 'jitter'>,
+  attempt: number
+): number {
+  const { backoff = 'exponential', delay = 100, maxDelay = Infinity, jitter = false } = options;
+  const base =
+    backoff === 'exponential' ? delay * 2 ** (attempt - 1) : backoff === 'linear' ? delay * attempt : backoff(attempt);
+  const capped = Math.min(base, maxDelay);
+  return jitter ? Math.random() * capped : capped;
+}
@@ -0,0 +1,95 @@
+/**
+ * Helper functions for validators implementing Standard Schema
+ * (https://standardschema.dev), such as Valibot, ArkType and Zod 3.24+
+ *
+ * The interface is copied here as the spec recommends, so no validator
+ * library is a dependency.
+ */
+
+import type { Result } from './types.js';
+import { ok, err } from './result.js';
+import { AsyncResult } from './async-result.js';
+
+/**
+ * A validator implementing the Standard Schema v1 interface
+ */
+export interface StandardSchema<Input = unknown, Output = Input> {
+  readonly '~standard': StandardSchemaProps<Input, Output>;
+}
+
+/**
+ * Properties of the `~standard` key
+ */
+export interface StandardSchemaProps<Input = unknown, Output = Input> {
+  readonly version: 1;
+  readonly vendor: string;
+  readonly validate: (
+    value: unknown
+  ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+  readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+}
+
+/**
+ * Result of Standard Schema validation
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * A single validation issue
+ */
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }> | undefined;
+}
+
+/**
+ * Output type of a Standard Schema validator
+ */
+export type StandardSchemaOutput<S extends StandardSchema> = NonNullable<S['~standard']['types']>['output'];
+
+/**
+ * A Standard Schema validator whose `validate` is declared to be synchronous
+ */
+export interface SyncStandardSchema<Input = unknown, Output = Input> extends StandardSchema<Input, Output> {
+  readonly '~standard': StandardSchemaProps<Input, Output> & {
+    readonly validate: (value: unknown) => StandardSchemaResult<Output>;
+  };
+}
+
+/**
+ * Validates `input` with a Standard Schema validator.
+ * Returns a Result when the validation is synchronous and an AsyncResult
+ * when `validate` returns a Promise. Validators declared synchronous at the
+ * type level get a plain Result type.
+ */
+export function schemaToResult<S extends SyncStandardSchema>(
+  schema: S,
+  input: unknown
+): Result<StandardSchemaOutput<S>, StandardSchemaIssue[]>;
+export function schemaToResult<S extends StandardSchema>(
+  schema: S,
+  input: unknown
+): Result<StandardSchemaOutput<S>, StandardSchemaIssue[]> | AsyncResult<StandardSchemaOutput<S>, StandardSchemaIssue[]>;
+export function schemaToResult<S extends StandardSchema>(
+  schema: S,
+  input: unknown
+): Result<StandardSchemaOutput<S>, StandardSchemaIssue[]> | AsyncResult<StandardSchemaOutput<S>, StandardSchemaIssue[]> {
+  const result = schema['~standard'].validate(input);
+  return result instanceof Promise ? new AsyncResult(result.then(toResult)) : toResult(result);
+}
+
+/**
+ * Validates `input` with any Standard Schema validator, synchronous or asynchronous
+ */
+export function schemaToResultAsync<S extends StandardSchema>(
+  schema: S,
+  input: unknown
+): AsyncResult<StandardSchemaOutput<S>, StandardSchemaIssue[]> {
+  return new AsyncResult(Promise.resolve(schema['~standard'].validate(input)).then(toResult));
+}
+
+function toResult<T>(result: StandardSchemaResult<T>): Result<T, StandardSchemaIssue[]> {
+  return result.issues ? err([...result.issues]) : ok(result.value);
+}
@@ -0,0 +1,44 @@
+/**
+ * Time-boxing of async Result-producing operations
+ */
+
+import type { Result, Failure } from './types.js';
+import { err } from './result.js';
+import { AsyncResult } from './async-result.js';
+import { TimeoutError } from './errors.js';
+import { startTimer, createAbortController } from './timers.js';
+import type { AbortSignalLike } from './timers.js';
+
+/**
+ * Fails with a TimeoutError if `source` has not settled within `ms` milliseconds.
+ * When `source` is a function it receives an AbortSignal that is aborted on
+ * timeout, so the underlying work can be cancelled too.
+ */
+export function withTimeout<T, E>(
+  source: PromiseLike<Result<T, E>> | ((signal: AbortSignalLike) => PromiseLike<Result<T, E>>),
+  ms: number
+): AsyncResult<T, E | TimeoutError> {
+  return new AsyncResult(raceTimeout(source, ms));
+}
+
+async function raceTimeout<T, E>(
+  source: PromiseLike<Result<T, E>> | ((signal: AbortSignalLike) => PromiseLike<Result<T, E>>),
+  ms: number
+): Promise<Result<T, E | TimeoutError>> {
+  const controller = createAbortController();
+  let cancel = () => {};
+  const timeout = new Promise<Failure<TimeoutError>>(resolve => {
+    cancel = startTimer(ms, () => {
+      const error = new TimeoutError(ms);
+      controller.abort(error);
+      resolve(err(error));
+    });
+  });
+
+  try {
+    const promise = typeof source === 'function' ? source(controller.signal) : source;
+    return await Promise.race([promise, timeout]);
+  } finally {
+    cancel();
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Timer and cancellation primitives used by the async helpers
+ *
+ * The library targets plain ES2020 without DOM or Node typings, so the few
+ * host APIs it needs are declared structurally here.
+ */
+
+declare function setTimeout(callback: () => void, ms: number): unknown;
+declare function clearTimeout(handle: unknown): void;
+declare const AbortController: new () => { readonly signal: AbortSignalLike; abort(reason?: unknown): void };
+
+/**
+ * The part of AbortSignal used by the library
+ */
+export interface MinimalAbortSignal {
+  readonly aborted: boolean;
+  readonly reason?: unknown;
+  addEventListener(type: 'abort', listener: () => void, options?: { once?: boolean }): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+/**
+ * The host's AbortSignal when its typings declare one (DOM or Node),
+ * so signals handed to callbacks can be passed on to e.g. `fetch`;
+ * MinimalAbortSignal otherwise
+ */
+export type AbortSignalLike = typeof globalThis extends { AbortSignal: { prototype: infer S } }
+  ? S
+  : MinimalAbortSignal;
+
+/**
+ * Calls `callback` after `ms` milliseconds and returns a function cancelling it
+ */
+export function startTimer(ms: number, callback: () => void): () => void {
+  const handle = setTimeout(callback, ms);
+  return () => clearTimeout(handle);
+}
+
+/**
+ * Creates an AbortController
+ */
+export function createAbortController(): { readonly signal: AbortSignalLike; abort(reason?: unknown): void } {
+  return new AbortController();
+}
+
+/**
+ * Resolves after `ms` milliseconds, or as soon as `signal` is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignalLike): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      cancel();
+      resolve();
+    };
+    const cancel = startTimer(ms, () => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    });
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
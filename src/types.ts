@@ -5,23 +5,191 @@
 /**
  * A Result type representing either a success value or an error.
  */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export type Result<T, E = any> = Success<T> | Failure<E>;
+export type Result<T, E = unknown> = Success<T> | Failure<E>;
+
+/**
+ * Either case of Result with any type arguments
+ */
+export type AnyResult = Success<unknown> | Failure<unknown>;
+
+/**
+ * Success value type of a Result (or union of Results)
+ */
+export type SuccessValue<R> = R extends Success<infer T> ? T : never;
+
+/**
+ * Error type of a Result (or union of Results)
+ */
+export type FailureError<R> = R extends Failure<infer E> ? E : never;
+
+/**
+ * Success values of a tuple, array or record of Results, position by position
+ */
+export type SuccessValues<Rs> = { -readonly [K in keyof Rs]: SuccessValue<Rs[K]> };
+
+/**
+ * An array with at least one element
+ */
+export type NonEmptyArray<T> = [T, ...T[]];
+
+/**
+ * Named validators run against the same input
+ */
+export type Validators<T> = Record<string, (value: T) => AnyResult>;
+
+/**
+ * The Results returned by a set of validators, key by key
+ */
+export type ValidatorResults<V> = {
+  [K in keyof V]: V[K] extends (...args: never[]) => infer R ? R : never;
+};
+
+/**
+ * A Promise of a Result, or a function producing such a Promise
+ */
+export type AsyncResultSource<R extends AnyResult = AnyResult> = PromiseLike<R> | (() => PromiseLike<R>);
+
+/**
+ * The Result an AsyncResultSource settles to
+ */
+export type SourceResult<S> = S extends () => infer P ? Awaited<P> : Awaited<S>;
+
+/**
+ * Trailing error-mapper argument of functions that catch exceptions.
+ * It may only be left out when the error type is unknown, so an explicit
+ * error type argument always comes with a mapper producing it.
+ */
+export type ErrorMapperArg<F> = [mapError: (error: unknown) => F] | (unknown extends F ? [] : never);
+
+/**
+ * Handlers for Result.match
+ */
+export interface MatchHandlers<T, E, A, B> {
+  ok: (data: T) => A;
+  err: (error: E) => B;
+}
+
+/**
+ * Values of the discriminant field `K` across an error union `E`
+ */
+export type TagValue<E, K extends PropertyKey> = E extends Record<K, infer V> ? Extract<V, PropertyKey> : never;
+
+/**
+ * One handler per error kind of a discriminated error union
+ */
+export type TagHandlers<E, K extends PropertyKey> = {
+  [Tag in TagValue<E, K>]: (error: Extract<E, Record<K, Tag>>) => unknown;
+};
+
+/**
+ * Union of the return types of a set of tag handlers
+ */
+export type TagHandlerResult<H> = {
+  [P in keyof H]: H[P] extends (...args: never[]) => infer O ? O : never;
+}[keyof H];
+
+/**
+ * The Result produced from a callback's return value: Results are kept as-is
+ * and any other value is wrapped in a Success.
+ */
+export type FlattenResult<V> =
+  | Extract<V, AnyResult>
+  | ([Exclude<V, AnyResult>] extends [never] ? never : Success<Exclude<V, AnyResult>>);
+
+/**
+ * Scope record of Do notation after binding `K` to a value of type `V`
+ */
+export type BindScope<S, K extends PropertyKey, V> = {
+  readonly [P in keyof S | K]: P extends keyof S ? S[P] : V;
+};
 
 /**
  * Success case of Result with chainable methods
+ *
+ * Each method returns exactly what a Success can become, so calling it on a
+ * `Result<T, E>` union keeps `E` and adds the callback's own error type.
  */
 export interface Success<T> {
   readonly success: true;
   readonly data: T;
 
-  // Core Railway Oriented Programming method with Promise support
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  map<U>(fn: (data: T) => U | Result<U, any> | Promise<U> | Promise<Result<U, any>>): Promise<Result<U, any>>;
+  // Synchronous value transform
+  map<U>(fn: (data: T) => U): Success<U>;
+
+  // Synchronous chaining with a Result-returning function
+  flatMap<U = never, F = never>(fn: (data: T) => Result<U, F>): Result<U, F>;
+
+  // Alias for flatMap
+  andThen<U = never, F = never>(fn: (data: T) => Result<U, F>): Result<U, F>;
+
+  // Promise-aware transform that also accepts Result-returning functions.
+  // Exceptions become failures, typed by mapError (unknown without it).
+  mapAsync<V, F = unknown>(
+    fn: (data: T) => V,
+    ...mapError: ErrorMapperArg<F>
+  ): Promise<FlattenResult<Awaited<V>> | Failure<F>>;
+
+  // Synchronous error transform
+  mapErr<F>(fn: (error: never) => F): Success<T>;
+
+  // Alias for mapErr
+  mapError<F>(fn: (error: never) => F): Success<T>;
+
+  // Error transform with a possibly asynchronous function
+  mapErrAsync<F>(fn: (error: never) => F | Promise<F>): Promise<Success<T>>;
+
+  // Fallback to another Result on failure
+  orElse<U = never, F = never>(fn: (error: never) => Result<U, F>): Success<T>;
+
+  // Alias for orElse
+  recoverWith<U = never, F = never>(fn: (error: never) => Result<U, F>): Success<T>;
+
+  // Fallback to another Result with a possibly asynchronous function
+  orElseAsync<U = never, F = never>(
+    fn: (error: never) => Result<U, F> | Promise<Result<U, F>>
+  ): Promise<Success<T>>;
+
+  // Replace a failure with a success value
+  recover<U>(fn: (error: never) => U): Success<T>;
+
+  // Replace a failure with a success value from a possibly asynchronous function
+  recoverAsync<U>(fn: (error: never) => U | Promise<U>): Promise<Success<T>>;
+
+  // Run a side effect with the success value and return this result unchanged.
+  // Errors thrown by the side effect are not caught. The side effect is not
+  // awaited, so use tapAsync for asynchronous side effects.
+  tap(fn: (data: T) => void): Success<T>;
+
+  // Run a side effect with the error (skipped on success)
+  tapErr(fn: (error: never) => void): Success<T>;
+
+  // Await a side effect with the success value, then resolve to this result.
+  // A rejection of the side effect rejects the returned Promise.
+  tapAsync(fn: (data: T) => unknown): Promise<Success<T>>;
+
+  // Run the handler for the matching case and return its value
+  match<A, B>(handlers: MatchHandlers<T, never, A, B>): A;
 
-  // Alias for map method for backward compatibility
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  mapAsync<U>(fn: (data: T) => Promise<U> | Promise<Result<U, any>>): Promise<Result<U, any>>;
+  // Extract the value, throwing UnwrapError on failure
+  unwrap(): T;
+
+  // Extract the value, or the given default on failure
+  unwrapOr<U>(defaultValue: U): T;
+
+  // Extract the value, or compute one from the error on failure
+  unwrapOrElse<U>(fn: (error: never) => U): T;
+
+  // Extract the value, throwing UnwrapError with the given message on failure
+  expect(message: string): T;
+
+  // Extract the error, throwing UnwrapError on success
+  unwrapErr(): never;
+
+  // Convert to an Option holding the success value
+  toOption(): Some<T>;
+
+  // Generator do-notation: `yield*` evaluates to the success value
+  [Symbol.iterator](): Generator<never, T, unknown>;
 }
 
 /**
@@ -31,11 +199,174 @@ export interface Failure<E> {
   readonly success: false;
   readonly error: E;
 
-  // Core Railway Oriented Programming method with Promise support
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  map<U>(fn: (data: never) => U | Result<U, any> | Promise<U> | Promise<Result<U, any>>): Promise<Result<U, any>>;
+  // Synchronous value transform
+  map<U>(fn: (data: never) => U): Failure<E>;
+
+  // Synchronous chaining with a Result-returning function
+  flatMap<U = never, F = never>(fn: (data: never) => Result<U, F>): Failure<E>;
+
+  // Alias for flatMap
+  andThen<U = never, F = never>(fn: (data: never) => Result<U, F>): Failure<E>;
+
+  // Promise-aware transform that also accepts Result-returning functions.
+  // Exceptions become failures, typed by mapError (unknown without it).
+  mapAsync<V, F = unknown>(
+    fn: (data: never) => V,
+    ...mapError: ErrorMapperArg<F>
+  ): Promise<Failure<E>>;
+
+  // Synchronous error transform
+  mapErr<F>(fn: (error: E) => F): Failure<F>;
+
+  // Alias for mapErr
+  mapError<F>(fn: (error: E) => F): Failure<F>;
+
+  // Error transform with a possibly asynchronous function
+  mapErrAsync<F>(fn: (error: E) => F | Promise<F>): Promise<Failure<F>>;
+
+  // Fallback to another Result on failure
+  orElse<U = never, F = never>(fn: (error: E) => Result<U, F>): Result<U, F>;
+
+  // Alias for orElse
+  recoverWith<U = never, F = never>(fn: (error: E) => Result<U, F>): Result<U, F>;
+
+  // Fallback to another Result with a possibly asynchronous function
+  orElseAsync<U = never, F = never>(
+    fn: (error: E) => Result<U, F> | Promise<Result<U, F>>
+  ): Promise<Result<U, F>>;
+
+  // Replace a failure with a success value
+  recover<U>(fn: (error: E) => U): Success<U>;
+
+  // Replace a failure with a success value from a possibly asynchronous function
+  recoverAsync<U>(fn: (error: E) => U | Promise<U>): Promise<Success<U>>;
+
+  // Run a side effect with the success value (skipped on failure)
+  tap(fn: (data: never) => void): Failure<E>;
+
+  // Run a side effect with the error and return this result unchanged.
+  // Errors thrown by the side effect are not caught, and it is not awaited.
+  tapErr(fn: (error: E) => void): Failure<E>;
+
+  // Await a side effect with the success value (skipped on failure)
+  tapAsync(fn: (data: never) => unknown): Promise<Failure<E>>;
+
+  // Run the handler for the matching case and return its value
+  match<A, B>(handlers: MatchHandlers<never, E, A, B>): B;
+
+  // Extract the value, throwing UnwrapError on failure
+  unwrap(): never;
+
+  // Extract the value, or the given default on failure
+  unwrapOr<U>(defaultValue: U): U;
+
+  // Extract the value, or compute one from the error on failure
+  unwrapOrElse<U>(fn: (error: E) => U): U;
+
+  // Extract the value, throwing UnwrapError with the given message on failure
+  expect(message: string): never;
+
+  // Extract the error, throwing UnwrapError on success
+  unwrapErr(): E;
+
+  // Convert to an Option, dropping the error
+  toOption(): None;
+
+  // Generator do-notation: `yield*` hands the failure to gen and never resumes
+  [Symbol.iterator](): Generator<Failure<E>, never, unknown>;
+}
+
+/**
+ * An optional value: either Some value or None.
+ * Use it for "may be absent" rather than "operation failed".
+ */
+export type Option<T> = Some<T> | None;
+
+/**
+ * Handlers for Option.match
+ */
+export interface OptionMatchHandlers<T, A, B> {
+  some: (value: T) => A;
+  none: () => B;
+}
+
+/**
+ * Present case of Option with chainable methods
+ */
+export interface Some<T> {
+  readonly some: true;
+  readonly value: T;
+
+  // Synchronous value transform
+  map<U>(fn: (value: T) => U): Some<U>;
+
+  // Synchronous chaining with an Option-returning function
+  flatMap<U>(fn: (value: T) => Option<U>): Option<U>;
+
+  // Alias for flatMap
+  andThen<U>(fn: (value: T) => Option<U>): Option<U>;
+
+  // Fall back to another Option when absent
+  orElse<U>(fn: () => Option<U>): Some<T>;
+
+  // Run the handler for the matching case and return its value
+  match<A, B>(handlers: OptionMatchHandlers<T, A, B>): A;
+
+  // Extract the value, throwing UnwrapError when absent
+  unwrap(): T;
+
+  // Extract the value or return the default when absent
+  unwrapOr<U>(defaultValue: U): T;
+
+  // Extract the value or compute one when absent
+  unwrapOrElse<U>(fn: () => U): T;
+
+  // Extract the value, throwing UnwrapError with the given message when absent
+  expect(message: string): T;
+
+  // Run a side effect with the value and return this option unchanged
+  tap(fn: (value: T) => unknown): Some<T>;
+
+  // Convert to a Result, using the given error when absent
+  toResult<F>(errorIfNone: F): Success<T>;
+}
+
+/**
+ * Absent case of Option with chainable methods
+ */
+export interface None {
+  readonly some: false;
+
+  // Synchronous value transform
+  map<U>(fn: (value: never) => U): None;
+
+  // Synchronous chaining with an Option-returning function
+  flatMap<U>(fn: (value: never) => Option<U>): None;
+
+  // Alias for flatMap
+  andThen<U>(fn: (value: never) => Option<U>): None;
+
+  // Fall back to another Option when absent
+  orElse<U>(fn: () => Option<U>): Option<U>;
+
+  // Run the handler for the matching case and return its value
+  match<A, B>(handlers: OptionMatchHandlers<never, A, B>): B;
+
+  // Extract the value, throwing UnwrapError when absent
+  unwrap(): never;
+
+  // Extract the value or return the default when absent
+  unwrapOr<U>(defaultValue: U): U;
+
+  // Extract the value or compute one when absent
+  unwrapOrElse<U>(fn: () => U): U;
+
+  // Extract the value, throwing UnwrapError with the given message when absent
+  expect(message: string): never;
+
+  // Run a side effect with the value (skipped when absent)
+  tap(fn: (value: never) => unknown): None;
 
-  // Alias for map method for backward compatibility
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  mapAsync<U>(fn: (data: never) => Promise<U> | Promise<Result<U, any>>): Promise<Result<U, any>>;
+  // Convert to a Result, using the given error when absent
+  toResult<F>(errorIfNone: F): Failure<F>;
 }
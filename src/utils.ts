@@ -2,24 +2,81 @@
  * Utility functions for working with Result types
  */
 
-import type { Result } from './types.js';
+import type { Result, Failure, FlattenResult, SuccessValue, FailureError, ErrorMapperArg } from './types.js';
 import { ok, err } from './result.js';
 import { isOk } from './guards.js';
+import { AsyncResult } from './async-result.js';
 
 /**
- * Converts a Promise<T> to Promise<Result<T, E>>
- * Catches any errors and wraps them in a Failure result
+ * Converts a Promise<T> to an AsyncResult<T, E>
+ * Catches any errors and wraps them in a Failure result.
+ * The rejection reason is passed through `mapError` when given, and is
+ * typed `unknown` otherwise.
  */
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export async function fromPromise<T, E = any>(promise: Promise<T>): Promise<Result<T, E>> {
+export function fromPromise<T>(promise: PromiseLike<T>): AsyncResult<T, unknown>;
+export function fromPromise<T, E>(promise: PromiseLike<T>, mapError: (error: unknown) => E): AsyncResult<T, E>;
+export function fromPromise<T, E>(
+  promise: PromiseLike<T>,
+  mapError?: (error: unknown) => E
+): AsyncResult<T, unknown> {
+  return new AsyncResult(
+    Promise.resolve(promise).then(
+      value => ok(value),
+      error => err(mapError ? mapError(error) : error)
+    )
+  );
+}
+
+/**
+ * Waits for every promise, like Promise.allSettled, and returns one Result per
+ * promise in input order. Rejections become Failures via fromPromise.
+ */
+export function settleAsync<T>(promises: Iterable<PromiseLike<T>>): Promise<Result<T, unknown>[]>;
+export function settleAsync<T, E>(
+  promises: Iterable<PromiseLike<T>>,
+  mapError: (error: unknown) => E
+): Promise<Result<T, E>[]>;
+export function settleAsync<T, E>(
+  promises: Iterable<PromiseLike<T>>,
+  mapError?: (error: unknown) => E
+): Promise<Result<T, unknown>[]> {
+  return Promise.all(
+    Array.from(promises, promise => (mapError ? fromPromise(promise, mapError) : fromPromise(promise)))
+  );
+}
+
+/**
+ * Runs a synchronous function and captures what it throws as a Failure.
+ * The thrown value is passed through `mapError` when given, and is typed
+ * `unknown` otherwise.
+ */
+export function tryCatch<T>(fn: () => T): Result<T, unknown>;
+export function tryCatch<T, E>(fn: () => T, mapError: (error: unknown) => E): Result<T, E>;
+export function tryCatch<T, E>(fn: () => T, mapError?: (error: unknown) => E): Result<T, unknown> {
   try {
-    const value = await promise;
-    return ok(value);
+    return ok(fn());
   } catch (error) {
-    return err(error as E);
+    return err(mapError ? mapError(error) : error);
   }
 }
 
+/**
+ * Wraps a throwing function into one that returns a Result
+ */
+export function fromThrowable<A extends unknown[], T>(
+  fn: (...args: A) => T
+): (...args: A) => Result<T, unknown>;
+export function fromThrowable<A extends unknown[], T, E>(
+  fn: (...args: A) => T,
+  mapError: (error: unknown) => E
+): (...args: A) => Result<T, E>;
+export function fromThrowable<A extends unknown[], T, E>(
+  fn: (...args: A) => T,
+  mapError?: (error: unknown) => E
+): (...args: A) => Result<T, unknown> {
+  return (...args: A) => tryCatch(() => fn(...args), error => (mapError ? mapError(error) : error));
+}
+
 /**
  * Converts a Result<T, E> to Promise<T>
  * Throws the error if the result is a failure
@@ -36,26 +93,36 @@ export function toPromise<T, E>(result: Result<T, E>): Promise<T> {
  * Maps over a Promise<Result<T, E>> with a synchronous function
  * Maintains Railway Oriented Programming pattern for async operations
  */
-export async function mapPromiseResult<T, U, E>(
-  promiseResult: Promise<Result<T, E>>,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  fn: (data: T) => U | Result<U, any>
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-): Promise<Result<U, any>> {
-  const result = await promiseResult;
-  return result.map(fn);
+export function mapPromiseResult<T, E, V, F = unknown>(
+  promiseResult: PromiseLike<Result<T, E>>,
+  fn: (data: T) => V,
+  ...mapError: ErrorMapperArg<F>
+): AsyncResult<SuccessValue<FlattenResult<Awaited<V>>>, E | F | FailureError<FlattenResult<Awaited<V>>>> {
+  return mapSettled(promiseResult, fn, mapError);
 }
 
 /**
  * Maps over a Promise<Result<T, E>> with an asynchronous function
  * Maintains Railway Oriented Programming pattern for async operations
  */
-export async function mapAsyncPromiseResult<T, U, E>(
-  promiseResult: Promise<Result<T, E>>,
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  fn: (data: T) => Promise<U> | Promise<Result<U, any>>
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-): Promise<Result<U, any>> {
-  const result = await promiseResult;
-  return result.mapAsync(fn);
+export function mapAsyncPromiseResult<T, E, V, F = unknown>(
+  promiseResult: PromiseLike<Result<T, E>>,
+  fn: (data: T) => Promise<V>,
+  ...mapError: ErrorMapperArg<F>
+): AsyncResult<SuccessValue<FlattenResult<Awaited<V>>>, E | F | FailureError<FlattenResult<Awaited<V>>>> {
+  return mapSettled(promiseResult, fn, mapError);
+}
+
+// Maps the settled Result with Success.mapAsync, keeping a Failure as-is
+function mapSettled<T, E, V, F>(
+  promiseResult: PromiseLike<Result<T, E>>,
+  fn: (data: T) => V,
+  mapError: ErrorMapperArg<F>
+): AsyncResult<SuccessValue<FlattenResult<Awaited<V>>>, E | F | FailureError<FlattenResult<Awaited<V>>>> {
+  const mapped = Promise.resolve(promiseResult).then<Failure<E> | FlattenResult<Awaited<V>> | Failure<F>>(result =>
+    isOk(result) ? result.mapAsync(fn, ...mapError) : result
+  );
+  return new AsyncResult(
+    mapped as Promise<Result<SuccessValue<FlattenResult<Awaited<V>>>, E | F | FailureError<FlattenResult<Awaited<V>>>>>
+  );
 }
@@ -1,18 +1,106 @@
 /**
  * Helper functions for integrating with Zod validation library
+ *
+ * Zod is not a dependency: schemas and errors are matched structurally, so any
+ * Zod version (or a compatible library) works and the real `ZodError` type is
+ * inferred from the schema passed in.
  */
 
 import type { Result } from './types.js';
 import { ok, err } from './result.js';
+import { AsyncResult } from './async-result.js';
+
+/**
+ * Shape of a Zod `safeParse` result
+ */
+export type SafeParseLike<T, E> = { success: true; data: T } | { success: false; error: E };
+
+/**
+ * Shape of a Zod issue
+ */
+export interface ZodIssueLike {
+  path: PropertyKey[];
+  message: string;
+  code: string;
+}
+
+/**
+ * Shape of a ZodError
+ */
+export interface ZodErrorLike {
+  issues: ZodIssueLike[];
+}
+
+/**
+ * Shape of a Zod schema
+ */
+export interface ZodSchemaLike<Output = unknown, Error = unknown> {
+  readonly _output: Output;
+  safeParse(data: unknown): SafeParseLike<Output, Error>;
+  safeParseAsync(data: unknown): Promise<SafeParseLike<Output, Error>>;
+}
+
+/**
+ * Output type of a schema, the same as `z.infer<S>`
+ */
+export type InferOutput<S> = S extends { readonly _output: infer O } ? O : never;
+
+/**
+ * Error type a schema fails with (`ZodError` for Zod schemas)
+ */
+export type InferSchemaError<S> = S extends { safeParse(data: unknown): infer R }
+  ? R extends { success: false; error: infer E } ? E : never
+  : never;
+
+/**
+ * A single validation failure flattened from a ZodError
+ */
+export interface FieldError {
+  path: PropertyKey[];
+  message: string;
+  code: string;
+}
 
 /**
  * Helper function to convert Zod SafeParseReturnType to Result
  */
+export function zodToResult<T = never, E = never>(zodResult: SafeParseLike<T, E>): Result<T, E>;
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function zodToResult<T>(zodResult: { success: boolean; data?: T; error?: any }): Result<T, any>;
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function zodToResult<T>(zodResult: { success: boolean; data?: T; error?: any }): Result<T> {
-  if (zodResult.success && zodResult.data !== undefined) {
-    return ok(zodResult.data);
+export function zodToResult<T>(zodResult: { success: boolean; data?: T; error?: any }): Result<T, any> {
+  if (zodResult.success) {
+    return ok(zodResult.data as T);
   } else {
     return err(zodResult.error || new Error("Validation failed"));
   }
 }
+
+/**
+ * Validates `input` with a schema, failing with the schema's error (a ZodError)
+ */
+export function parseWith<S extends ZodSchemaLike>(
+  schema: S,
+  input: unknown
+): Result<InferOutput<S>, InferSchemaError<S>> {
+  return zodToResult(schema.safeParse(input)) as Result<InferOutput<S>, InferSchemaError<S>>;
+}
+
+/**
+ * Validates `input` with a schema that may contain async refinements or transforms
+ */
+export function parseAsyncWith<S extends ZodSchemaLike>(
+  schema: S,
+  input: unknown
+): AsyncResult<InferOutput<S>, InferSchemaError<S>> {
+  return new AsyncResult(
+    schema.safeParseAsync(input).then(parsed => zodToResult(parsed) as Result<InferOutput<S>, InferSchemaError<S>>)
+  );
+}
+
+/**
+ * Flattens a ZodError into one `{ path, message, code }` entry per issue
+ */
+export function flattenZodError(error: ZodErrorLike): FieldError[] {
+  return error.issues.map(({ path, message, code }) => ({ path: [...path], message, code }));
+}